@@ -735,6 +735,36 @@ describe('BatchCommandCreator', () => {
             expect(mockProcessExit).toHaveBeenCalledWith(1);
         });
 
+        it('should reject a minimum confidence that is not a number from 0 to 1', async () => {
+            await definition.action(testPattern, { minConfidence: 'abc' });
+
+            expect(mockConsoleError).toHaveBeenCalledWith(
+                '❌ Error:',
+                'Invalid minimum confidence "abc"; use a number from 0 to 1',
+            );
+            expect(mockProcessExit).toHaveBeenCalledWith(1);
+        });
+
+        it('should reject a frame rate that is not a number above 0', async () => {
+            await definition.action(testPattern, { fps: '0' });
+
+            expect(mockConsoleError).toHaveBeenCalledWith(
+                '❌ Error:',
+                'Invalid frame rate "0"; use a number of frames per second above 0',
+            );
+            expect(mockProcessExit).toHaveBeenCalledWith(1);
+        });
+
+        it('should reject a detection sample size that is not a whole number', async () => {
+            await definition.action(testPattern, { detectionSampleSize: 'abc' });
+
+            expect(mockConsoleError).toHaveBeenCalledWith(
+                '❌ Error:',
+                'Invalid detection sample size "abc"; use a whole number of bytes, 0 for all of them',
+            );
+            expect(mockProcessExit).toHaveBeenCalledWith(1);
+        });
+
         it('should merge options with config correctly', async () => {
             const customConfig = {
                 output: {
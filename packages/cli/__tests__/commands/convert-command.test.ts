@@ -3,6 +3,7 @@ import os from 'os';
 import path from 'path';
 
 import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { Command } from 'commander';
 
 import { IConvertCommandOptions, IConfig, ICommandDefinition } from '@subzilla/types';
 
@@ -22,6 +23,7 @@ describe('ConvertCommandCreator', () => {
     let mockConsoleLog: jest.MockedFunction<typeof console.log>;
     let mockConsoleError: jest.MockedFunction<typeof console.error>;
     let mockProcessExit: jest.MockedFunction<typeof process.exit>;
+    let mockProcessFile: jest.Mock<(...args: unknown[]) => Promise<{ outputPath: string; backupPath: string }>>;
 
     beforeEach(async () => {
         commandCreator = new ConvertCommandCreator();
@@ -37,10 +39,13 @@ describe('ConvertCommandCreator', () => {
 
         // Setup mocks
         const { SubtitleProcessor, ConfigManager } = require('@subzilla/core');
-        const mockProcessFile = jest.fn<() => Promise<{ outputPath: string; backupPath: string }>>().mockResolvedValue({
-            outputPath: '/mock/output.srt',
-            backupPath: '/mock/backup.srt',
-        });
+
+        mockProcessFile = jest
+            .fn<(...args: unknown[]) => Promise<{ outputPath: string; backupPath: string }>>()
+            .mockResolvedValue({
+                outputPath: '/mock/output.srt',
+                backupPath: '/mock/backup.srt',
+            });
 
         (SubtitleProcessor as jest.Mock).mockImplementation(() => ({
             processFile: mockProcessFile,
@@ -117,19 +122,55 @@ describe('ConvertCommandCreator', () => {
                 output: outputPath,
             };
 
+            mockProcessFile.mockResolvedValueOnce({ outputPath, backupPath: '/mock/backup.srt' });
+
             await definition.action(testFilePath, options);
 
+            expect(mockProcessFile).toHaveBeenCalledWith(testFilePath, outputPath, expect.any(Object));
             expect(mockConsoleLog).toHaveBeenCalledWith(`Output file: ${outputPath}`);
         });
 
-        it('should use default output path when not provided', async () => {
-            const options: IConvertCommandOptions = {};
+        it('should report the path the processor wrote, whose extension can differ from the input', async () => {
+            const samiPath = path.join(tempDir, 'k.smi');
+            const outputPath = path.join(tempDir, 'k.subzilla.srt');
+
+            mockProcessFile.mockResolvedValueOnce({ outputPath, backupPath: '/mock/backup.srt' });
+
+            await definition.action(samiPath, {});
+
+            expect(mockProcessFile).toHaveBeenCalledWith(samiPath, undefined, expect.any(Object));
+            expect(mockConsoleLog).toHaveBeenCalledWith(`Output file: ${outputPath}`);
+        });
+
+        it('should pass the --to format to the processor', async () => {
+            const options: IConvertCommandOptions = { to: 'vtt' };
 
             await definition.action(testFilePath, options);
 
-            const expectedOutput = `${path.join(path.dirname(testFilePath), 'test')}.subzilla.srt`;
+            expect(mockConsoleLog).toHaveBeenCalledWith(
+                '🧬 Output options:',
+                expect.objectContaining({ outputFormat: 'vtt' }),
+            );
+        });
+
+        it('should let --encoding replace the configured encoding and overrides', async () => {
+            const loadedConfig: IConfig = {
+                input: { encoding: 'utf8', encodingOverrides: { 'arabic/**': 'windows1256' } },
+            };
+
+            await definition.action(testFilePath, { loadedConfig });
 
-            expect(mockConsoleLog).toHaveBeenCalledWith(`Output file: ${expectedOutput}`);
+            expect(mockConsoleLog).toHaveBeenCalledWith(
+                '🧬 Output options:',
+                expect.objectContaining({ encoding: 'utf8', encodingOverrides: { 'arabic/**': 'windows1256' } }),
+            );
+
+            await definition.action(testFilePath, { loadedConfig, encoding: 'iso88596' });
+
+            expect(mockConsoleLog).toHaveBeenCalledWith(
+                '🧬 Output options:',
+                expect.objectContaining({ encoding: 'iso88596', encodingOverrides: undefined }),
+            );
         });
 
         it('should show backup message when backup is enabled', async () => {
@@ -162,8 +203,141 @@ describe('ConvertCommandCreator', () => {
             );
         });
 
+        it('should strip every SDH annotation with --strip-sdh', async () => {
+            await definition.action(testFilePath, { stripSdh: true });
+
+            expect(mockConsoleLog).toHaveBeenCalledWith(
+                '🧬 Output options:',
+                expect.objectContaining({
+                    strip: expect.objectContaining({ hearingImpaired: true }),
+                }),
+            );
+        });
+
+        it('should strip only the SDH annotations listed', async () => {
+            await definition.action(testFilePath, { sdhParts: 'brackets,music' });
+
+            expect(mockConsoleLog).toHaveBeenCalledWith(
+                '🧬 Output options:',
+                expect.objectContaining({
+                    strip: expect.objectContaining({ hearingImpaired: { brackets: true, music: true } }),
+                }),
+            );
+        });
+
+        it('should take the file after --strip-sdh as the input, not as SDH parts', async () => {
+            const program = new Command().exitOverride();
+
+            commandCreator.createCommand({ program });
+            await program.parseAsync(['convert', '--strip-sdh', testFilePath], { from: 'user' });
+
+            const { SubtitleProcessor } = require('@subzilla/core');
+            const processor = (SubtitleProcessor as jest.Mock).mock.results[0].value as {
+                processFile: jest.Mock;
+            };
+
+            expect(processor.processFile).toHaveBeenCalledWith(
+                testFilePath,
+                undefined,
+                expect.objectContaining({ strip: expect.objectContaining({ hearingImpaired: true }) }),
+            );
+        });
+
+        it('should turn on RTL fixes from flags', async () => {
+            const options: IConvertCommandOptions = {
+                fixVisualOrder: true,
+                fixRtlPunctuation: true,
+                rtlMarkers: 'rlm',
+            };
+
+            await definition.action(testFilePath, options);
+
+            expect(mockConsoleLog).toHaveBeenCalledWith(
+                '🧬 Output options:',
+                expect.objectContaining({
+                    rtl: { visualOrder: true, fixPunctuation: true, markers: 'rlm' },
+                }),
+            );
+        });
+
+        it('should reject unknown RTL markers', async () => {
+            await definition.action(testFilePath, { rtlMarkers: 'lrm' });
+
+            expect(mockConsoleError).toHaveBeenCalledWith('❌ Error:', 'Unknown RTL markers "lrm"; use rlm or rle');
+            expect(mockProcessExit).toHaveBeenCalledWith(1);
+        });
+
+        it('should reject a minimum confidence that is not a number from 0 to 1', async () => {
+            await definition.action(testFilePath, { minConfidence: 'abc' });
+            await definition.action(testFilePath, { minConfidence: '1.5' });
+
+            expect(mockConsoleError).toHaveBeenCalledWith(
+                '❌ Error:',
+                'Invalid minimum confidence "abc"; use a number from 0 to 1',
+            );
+            expect(mockConsoleError).toHaveBeenCalledWith(
+                '❌ Error:',
+                'Invalid minimum confidence "1.5"; use a number from 0 to 1',
+            );
+            expect(mockProcessExit).toHaveBeenCalledWith(1);
+        });
+
+        it('should reject a frame rate that is not a number above 0', async () => {
+            await definition.action(testFilePath, { fps: 'abc' });
+            await definition.action(testFilePath, { fps: '0' });
+
+            expect(mockConsoleError).toHaveBeenCalledWith(
+                '❌ Error:',
+                'Invalid frame rate "abc"; use a number of frames per second above 0',
+            );
+            expect(mockConsoleError).toHaveBeenCalledWith(
+                '❌ Error:',
+                'Invalid frame rate "0"; use a number of frames per second above 0',
+            );
+            expect(mockProcessExit).toHaveBeenCalledWith(1);
+        });
+
+        it('should reject a detection sample size that is not a whole number', async () => {
+            await definition.action(testFilePath, { detectionSampleSize: '-1' });
+
+            expect(mockConsoleError).toHaveBeenCalledWith(
+                '❌ Error:',
+                'Invalid detection sample size "-1"; use a whole number of bytes, 0 for all of them',
+            );
+            expect(mockProcessExit).toHaveBeenCalledWith(1);
+        });
+
+        it('should reject unknown policies', async () => {
+            await definition.action(testFilePath, {
+                unrepresentable: 'drop' as IConvertCommandOptions['unrepresentable'],
+            });
+
+            expect(mockConsoleError).toHaveBeenCalledWith(
+                '❌ Error:',
+                'Unknown unrepresentable policy "drop"; use fail, replace or transliterate',
+            );
+
+            await definition.action(testFilePath, { invalidBytes: 'skip' as IConvertCommandOptions['invalidBytes'] });
+
+            expect(mockConsoleError).toHaveBeenCalledWith(
+                '❌ Error:',
+                'Unknown invalid-bytes policy "skip"; use ignore, warn or fail',
+            );
+
+            await definition.action(testFilePath, { lowConfidence: 'ask' as IConvertCommandOptions['lowConfidence'] });
+
+            expect(mockConsoleError).toHaveBeenCalledWith(
+                '❌ Error:',
+                'Unknown low-confidence policy "ask"; use warn or fail',
+            );
+            expect(mockProcessExit).toHaveBeenCalledWith(1);
+        });
+
         it('should handle numeric options correctly', async () => {
             const options: IConvertCommandOptions = {
+                minConfidence: '0.8',
+                detectionSampleSize: '0',
+                fps: '23.976',
                 retryCount: '3',
                 retryDelay: '2000',
             };
@@ -173,6 +347,9 @@ describe('ConvertCommandCreator', () => {
             expect(mockConsoleLog).toHaveBeenCalledWith(
                 '🧬 Output options:',
                 expect.objectContaining({
+                    minConfidence: 0.8,
+                    detectionSampleSize: 0,
+                    fps: 23.976,
                     retryCount: 3,
                     retryDelay: 2000,
                 }),
@@ -252,33 +429,4 @@ describe('ConvertCommandCreator', () => {
             );
         });
     });
-
-    describe('getDefaultOutputPath', () => {
-        it('should generate correct default output path', () => {
-            const inputFile = '/path/to/input.srt';
-            const result = (
-                commandCreator as unknown as { getDefaultOutputPath(file: string): string }
-            ).getDefaultOutputPath(inputFile);
-
-            expect(result).toBe('/path/to/input.subzilla.srt');
-        });
-
-        it('should handle files with multiple dots', () => {
-            const inputFile = '/path/to/file.name.with.dots.srt';
-            const result = (
-                commandCreator as unknown as { getDefaultOutputPath(file: string): string }
-            ).getDefaultOutputPath(inputFile);
-
-            expect(result).toBe('/path/to/file.name.with.dots.subzilla.srt');
-        });
-
-        it('should handle files without extension', () => {
-            const inputFile = '/path/to/filename';
-            const result = (
-                commandCreator as unknown as { getDefaultOutputPath(file: string): string }
-            ).getDefaultOutputPath(inputFile);
-
-            expect(result).toBe('.subzilla./path/to/filename');
-        });
-    });
 });
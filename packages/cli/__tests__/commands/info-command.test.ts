@@ -10,8 +10,17 @@ import { InfoCommandCreator } from '../../src/commands/info-command';
 
 // Mock the core modules
 jest.mock('@subzilla/core', () => ({
+    EncodingConversionService: {
+        convertToUtf8: jest.fn((content: Buffer, encoding: string) => require('iconv-lite').decode(content, encoding)),
+    },
     EncodingDetectionService: {
-        detectEncoding: jest.fn(),
+        detectEncodingFromBuffer: jest.fn(),
+    },
+    MojibakeRepairService: {
+        repair: jest.fn(),
+    },
+    RtlTextService: {
+        detectVisualOrder: jest.fn(),
     },
 }));
 
@@ -35,9 +44,16 @@ describe('InfoCommandCreator', () => {
         jest.clearAllMocks();
 
         // Setup default mock for encoding detection
-        const { EncodingDetectionService } = require('@subzilla/core');
-
-        EncodingDetectionService.detectEncoding.mockResolvedValue('utf-8');
+        const { EncodingDetectionService, MojibakeRepairService, RtlTextService } = require('@subzilla/core');
+
+        EncodingDetectionService.detectEncodingFromBuffer.mockReturnValue({ encoding: 'utf-8' });
+        MojibakeRepairService.repair.mockImplementation((text: string) => ({
+            text,
+            rounds: 0,
+            repairs: 0,
+            codepages: [],
+        }));
+        RtlTextService.detectVisualOrder.mockReturnValue({ lines: 0, reversed: 0 });
     });
 
     afterEach(async () => {
@@ -141,14 +157,16 @@ describe('InfoCommandCreator', () => {
             it('should detect and display UTF-8 encoding', async () => {
                 const { EncodingDetectionService } = require('@subzilla/core');
 
-                EncodingDetectionService.detectEncoding.mockResolvedValue('utf-8');
+                EncodingDetectionService.detectEncodingFromBuffer.mockReturnValue({ encoding: 'utf-8' });
 
                 testFilePath = path.join(tempDir, 'utf8.srt');
                 await fs.promises.writeFile(testFilePath, 'UTF-8 content', 'utf8');
 
                 await definition.action(testFilePath, {});
 
-                expect(EncodingDetectionService.detectEncoding).toHaveBeenCalledWith(testFilePath);
+                expect(EncodingDetectionService.detectEncodingFromBuffer).toHaveBeenCalledWith(
+                    Buffer.from('UTF-8 content', 'utf8'),
+                );
                 expect(mockConsoleLog).toHaveBeenCalledWith(expect.stringContaining('🔤 Encoding Information'));
                 const encodingCalls = mockConsoleLog.mock.calls.filter((call) =>
                     call.some((arg) => typeof arg === 'string' && arg.includes('Detected Encoding:')),
@@ -160,27 +178,27 @@ describe('InfoCommandCreator', () => {
             it('should detect and display ISO-8859-1 encoding', async () => {
                 const { EncodingDetectionService } = require('@subzilla/core');
 
-                EncodingDetectionService.detectEncoding.mockResolvedValue('ISO-8859-1');
+                EncodingDetectionService.detectEncodingFromBuffer.mockReturnValue({ encoding: 'ISO-8859-1' });
 
                 testFilePath = path.join(tempDir, 'latin1.srt');
                 await fs.promises.writeFile(testFilePath, 'Latin-1 content', 'latin1');
 
                 await definition.action(testFilePath, {});
 
-                expect(EncodingDetectionService.detectEncoding).toHaveBeenCalledWith(testFilePath);
+                expect(EncodingDetectionService.detectEncodingFromBuffer).toHaveBeenCalledWith(expect.any(Buffer));
             });
 
             it('should detect and display Windows-1252 encoding', async () => {
                 const { EncodingDetectionService } = require('@subzilla/core');
 
-                EncodingDetectionService.detectEncoding.mockResolvedValue('windows-1252');
+                EncodingDetectionService.detectEncodingFromBuffer.mockReturnValue({ encoding: 'windows-1252' });
 
                 testFilePath = path.join(tempDir, 'win1252.srt');
                 await fs.promises.writeFile(testFilePath, 'Windows content', 'utf8');
 
                 await definition.action(testFilePath, {});
 
-                expect(EncodingDetectionService.detectEncoding).toHaveBeenCalledWith(testFilePath);
+                expect(EncodingDetectionService.detectEncodingFromBuffer).toHaveBeenCalledWith(expect.any(Buffer));
             });
 
             it('should handle encoding detection for various encodings', async () => {
@@ -188,7 +206,7 @@ describe('InfoCommandCreator', () => {
                 const encodings = ['utf-8', 'ISO-8859-1', 'windows-1252', 'GB2312', 'Big5'];
 
                 for (const encoding of encodings) {
-                    EncodingDetectionService.detectEncoding.mockResolvedValue(encoding);
+                    EncodingDetectionService.detectEncodingFromBuffer.mockReturnValue({ encoding: encoding });
 
                     testFilePath = path.join(tempDir, `${encoding}.srt`);
                     await fs.promises.writeFile(testFilePath, 'test', 'utf8');
@@ -197,11 +215,110 @@ describe('InfoCommandCreator', () => {
 
                     await definition.action(testFilePath, {});
 
-                    expect(EncodingDetectionService.detectEncoding).toHaveBeenCalledWith(testFilePath);
+                    expect(EncodingDetectionService.detectEncodingFromBuffer).toHaveBeenCalledWith(expect.any(Buffer));
                 }
             });
         });
 
+        describe('mojibake detection', () => {
+            it('should report clean text', async () => {
+                testFilePath = path.join(tempDir, 'clean.srt');
+                await fs.promises.writeFile(testFilePath, 'Clean content', 'utf8');
+
+                await definition.action(testFilePath, {});
+
+                expect(mockConsoleLog).toHaveBeenCalledWith(expect.stringMatching(/Mojibake: .*No/));
+            });
+
+            it('should report double-encoded text and how to fix it', async () => {
+                const { MojibakeRepairService } = require('@subzilla/core');
+
+                MojibakeRepairService.repair.mockReturnValue({
+                    text: 'ال',
+                    rounds: 1,
+                    repairs: 1,
+                    codepages: ['windows-1252'],
+                });
+
+                testFilePath = path.join(tempDir, 'mojibake.srt');
+                await fs.promises.writeFile(testFilePath, 'Ø§Ù„', 'utf8');
+
+                await definition.action(testFilePath, {});
+
+                expect(MojibakeRepairService.repair).toHaveBeenCalledWith('Ø§Ù„');
+                expect(mockConsoleLog).toHaveBeenCalledWith(
+                    expect.stringMatching(/Mojibake: .*Yes, 1 runs read as windows-1252 \(fix with --fix-mojibake\)/),
+                );
+            });
+
+            it('should check text decoded with a codepage', async () => {
+                const { EncodingDetectionService, MojibakeRepairService } = require('@subzilla/core');
+
+                EncodingDetectionService.detectEncodingFromBuffer.mockReturnValue({ encoding: 'windows-1256' });
+                MojibakeRepairService.repair.mockReturnValue({
+                    text: 'é',
+                    rounds: 1,
+                    repairs: 1,
+                    codepages: ['windows-1256'],
+                });
+
+                testFilePath = path.join(tempDir, 'arabic-mojibake.srt');
+                // "أé" in windows-1256
+                await fs.promises.writeFile(testFilePath, Buffer.from([0xc3, 0xe9]));
+
+                await definition.action(testFilePath, {});
+
+                expect(MojibakeRepairService.repair).toHaveBeenCalledWith('أé');
+                expect(mockConsoleLog).toHaveBeenCalledWith(
+                    expect.stringMatching(/Mojibake: .*Yes, 1 runs read as windows-1256/),
+                );
+            });
+        });
+
+        describe('visual order detection', () => {
+            it('should report logical order', async () => {
+                testFilePath = path.join(tempDir, 'logical.srt');
+                await fs.promises.writeFile(testFilePath, 'שלום', 'utf8');
+
+                await definition.action(testFilePath, {});
+
+                expect(mockConsoleLog).toHaveBeenCalledWith(expect.stringMatching(/Visual Order: .*No/));
+            });
+
+            it('should read windows-1255 files', async () => {
+                const { EncodingDetectionService, RtlTextService } = require('@subzilla/core');
+
+                EncodingDetectionService.detectEncodingFromBuffer.mockReturnValue({ encoding: 'windows-1255' });
+
+                testFilePath = path.join(tempDir, 'hebrew.srt');
+                // "םולש" in windows-1255
+                await fs.promises.writeFile(testFilePath, Buffer.from([0xed, 0xe5, 0xec, 0xf9]));
+
+                await definition.action(testFilePath, {});
+
+                expect(RtlTextService.detectVisualOrder).toHaveBeenCalledWith('םולש');
+                expect(mockProcessExit).not.toHaveBeenCalled();
+            });
+
+            it('should report reversed lines and how to fix them', async () => {
+                const { RtlTextService } = require('@subzilla/core');
+
+                RtlTextService.detectVisualOrder.mockReturnValue({ lines: 4, reversed: 3, line: 3 });
+
+                testFilePath = path.join(tempDir, 'visual.srt');
+                await fs.promises.writeFile(testFilePath, 'םולש', 'utf8');
+
+                await definition.action(testFilePath, {});
+
+                expect(RtlTextService.detectVisualOrder).toHaveBeenCalledWith('םולש');
+                expect(mockConsoleLog).toHaveBeenCalledWith(
+                    expect.stringMatching(
+                        /Visual Order: .*Yes, 3 of 4 right-to-left lines from line 3 \(fix with --fix-visual-order\)/,
+                    ),
+                );
+            });
+        });
+
         describe('BOM detection', () => {
             it('should detect UTF-8 BOM when present', async () => {
                 testFilePath = path.join(tempDir, 'with-bom.srt');
@@ -414,7 +531,9 @@ Single subtitle
             it('should handle encoding detection errors', async () => {
                 const { EncodingDetectionService } = require('@subzilla/core');
 
-                EncodingDetectionService.detectEncoding.mockRejectedValue(new Error('Encoding detection failed'));
+                EncodingDetectionService.detectEncodingFromBuffer.mockImplementation(() => {
+                    throw new Error('Encoding detection failed');
+                });
 
                 testFilePath = path.join(tempDir, 'test.srt');
                 await fs.promises.writeFile(testFilePath, 'content', 'utf8');
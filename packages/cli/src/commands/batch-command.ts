@@ -2,6 +2,16 @@ import { BatchProcessor, ConfigManager } from '@subzilla/core';
 import { IBatchCommandOptions, ICommandDefinition } from '@subzilla/types';
 
 import { BATCH_OPTIONS } from '../constants/options';
+import {
+    parseConfidence,
+    parseFps,
+    parseInvalidBytes,
+    parseLowConfidence,
+    parseSampleSize,
+    parseUnrepresentable,
+} from '../utils/option-values';
+import { createReplaceRules } from '../utils/replace-rules';
+import { createRtlOptions } from '../utils/rtl-options';
 import { createStripOptions } from '../utils/strip-options';
 import { BaseCommandCreator } from './base-command';
 
@@ -22,9 +32,29 @@ export class BatchCommandCreator extends BaseCommandCreator<IBatchCommandOptions
                     const config = options.loadedConfig || (await ConfigManager.loadConfig()).config;
                     const outputOptions = {
                         common: {
+                            encoding: options.encoding ?? config.input?.encoding,
+                            // --encoding pins every file, so per-glob overrides no longer apply
+                            encodingOverrides: options.encoding ? undefined : config.input?.encodingOverrides,
+                            minConfidence: parseConfidence(options.minConfidence) ?? config.input?.minConfidence,
+                            lowConfidence: parseLowConfidence(options.lowConfidence) ?? config.input?.lowConfidence,
+                            fixMojibake: options.fixMojibake ?? config.input?.fixMojibake,
+                            mixedEncodings: options.mixedEncodings ?? config.input?.mixedEncodings,
+                            invalidBytes: parseInvalidBytes(options.invalidBytes) ?? config.input?.invalidBytes,
+                            detectionSampleSize:
+                                parseSampleSize(options.detectionSampleSize) ?? config.input?.detectionSampleSize,
+                            inputFormat: config.input?.format,
+                            outputFormat: options.to ?? config.output?.format,
+                            fps: parseFps(options.fps) ?? config.input?.fps,
+                            language: options.language ?? config.input?.language,
                             strip: createStripOptions(options, config),
+                            arabic: config.arabic,
+                            replace: await createReplaceRules(options, config),
+                            rtl: createRtlOptions(options, config),
                             backupOriginal: options.backup ?? config.output?.createBackup,
                             overwriteBackup: options.overwriteBackup ?? config.output?.overwriteBackup,
+                            outputEncoding: options.outputEncoding ?? config.output?.encoding,
+                            unrepresentable:
+                                parseUnrepresentable(options.unrepresentable) ?? config.output?.unrepresentable,
                             bom: options.bom ?? config.output?.bom,
                             lineEndings: options.lineEndings ?? config.output?.lineEndings,
                             overwriteInput: options.overwriteInput ?? config.output?.overwriteInput,
@@ -47,6 +77,7 @@ export class BatchCommandCreator extends BaseCommandCreator<IBatchCommandOptions
                             excludeDirectories: options.excludeDirs ?? config.batch?.excludeDirectories,
                             preserveStructure: options.preserveStructure ?? config.batch?.preserveStructure ?? false,
                             chunkSize: options.chunkSize ?? config.batch?.chunkSize,
+                            encodingConsensus: options.encodingConsensus ?? config.batch?.encodingConsensus,
                         },
                     };
 
@@ -2,6 +2,16 @@ import { SubtitleProcessor, ConfigManager } from '@subzilla/core';
 import { IConvertCommandOptions, ICommandDefinition } from '@subzilla/types';
 
 import { CONVERT_OPTIONS } from '../constants/options';
+import {
+    parseConfidence,
+    parseFps,
+    parseInvalidBytes,
+    parseLowConfidence,
+    parseSampleSize,
+    parseUnrepresentable,
+} from '../utils/option-values';
+import { createReplaceRules } from '../utils/replace-rules';
+import { createRtlOptions } from '../utils/rtl-options';
 import { createStripOptions } from '../utils/strip-options';
 import { BaseCommandCreator } from './base-command';
 
@@ -21,9 +31,29 @@ export class ConvertCommandCreator extends BaseCommandCreator<IConvertCommandOpt
                 try {
                     const config = options.loadedConfig || (await ConfigManager.loadConfig()).config;
                     const outputOptions = {
+                        encoding: options.encoding ?? config.input?.encoding,
+                        // --encoding pins every file, so per-glob overrides no longer apply
+                        encodingOverrides: options.encoding ? undefined : config.input?.encodingOverrides,
+                        minConfidence: parseConfidence(options.minConfidence) ?? config.input?.minConfidence,
+                        lowConfidence: parseLowConfidence(options.lowConfidence) ?? config.input?.lowConfidence,
+                        fixMojibake: options.fixMojibake ?? config.input?.fixMojibake,
+                        mixedEncodings: options.mixedEncodings ?? config.input?.mixedEncodings,
+                        invalidBytes: parseInvalidBytes(options.invalidBytes) ?? config.input?.invalidBytes,
+                        detectionSampleSize:
+                            parseSampleSize(options.detectionSampleSize) ?? config.input?.detectionSampleSize,
+                        inputFormat: config.input?.format,
+                        outputFormat: options.to ?? config.output?.format,
+                        fps: parseFps(options.fps) ?? config.input?.fps,
+                        language: options.language ?? config.input?.language,
                         strip: createStripOptions(options, config),
+                        arabic: config.arabic,
+                        replace: await createReplaceRules(options, config),
+                        rtl: createRtlOptions(options, config),
                         backupOriginal: options.backup ?? config.output?.createBackup,
                         overwriteBackup: options.overwriteBackup ?? config.output?.overwriteBackup,
+                        outputEncoding: options.outputEncoding ?? config.output?.encoding,
+                        unrepresentable:
+                            parseUnrepresentable(options.unrepresentable) ?? config.output?.unrepresentable,
                         bom: options.bom ?? config.output?.bom,
                         lineEndings: options.lineEndings ?? config.output?.lineEndings,
                         overwriteInput: options.overwriteInput ?? config.output?.overwriteInput,
@@ -36,11 +66,11 @@ export class ConvertCommandCreator extends BaseCommandCreator<IConvertCommandOpt
 
                     const processor = new SubtitleProcessor();
 
-                    await processor.processFile(inputFile, options.output, outputOptions);
+                    const result = await processor.processFile(inputFile, options.output, outputOptions);
 
                     console.log('✨ Conversion successful!');
                     console.log(`Input file: ${inputFile}`);
-                    console.log(`Output file: ${options.output || this.getDefaultOutputPath(inputFile)}`);
+                    console.log(`Output file: ${result.outputPath}`);
 
                     if (options.backup || config.output?.createBackup) {
                         console.log(`Backup file: ${inputFile}.bak`);
@@ -52,12 +82,4 @@ export class ConvertCommandCreator extends BaseCommandCreator<IConvertCommandOpt
             },
         };
     }
-
-    private getDefaultOutputPath(inputFile: string): string {
-        const parts = inputFile.split('.');
-        const extension = parts.pop();
-        const fileName = parts.join('.');
-
-        return `${fileName}.subzilla.${extension}`;
-    }
 }
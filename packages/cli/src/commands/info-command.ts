@@ -3,8 +3,13 @@ import fs from 'fs/promises';
 
 import chalk from 'chalk';
 
-import { EncodingDetectionService } from '@subzilla/core';
-import { IInfoCommandOptions, ICommandDefinition } from '@subzilla/types';
+import {
+    EncodingConversionService,
+    EncodingDetectionService,
+    MojibakeRepairService,
+    RtlTextService,
+} from '@subzilla/core';
+import { IInfoCommandOptions, ICommandDefinition, IMojibakeRepair, IVisualOrderDetection } from '@subzilla/types';
 
 import { BaseCommandCreator } from './base-command';
 
@@ -28,17 +33,24 @@ export class InfoCommandCreator extends BaseCommandCreator<IInfoCommandOptions>
                     // Read file as buffer for analysis
                     const fileBuffer = await fs.readFile(inputFile);
 
-                    // Detect encoding
-                    const detectedEncoding = await EncodingDetectionService.detectEncoding(inputFile);
+                    // Detect encoding from the buffer already read
+                    const detectedEncoding = EncodingDetectionService.detectEncodingFromBuffer(fileBuffer).encoding;
 
                     // Check for BOM
                     const hasBOM = fileBuffer.slice(0, 3).equals(Buffer.from([0xef, 0xbb, 0xbf]));
 
                     // Count lines and entries
-                    const content = fileBuffer.toString(detectedEncoding as NodeJS.BufferEncoding);
+                    // Codepages such as windows-1256 are beyond Buffer#toString
+                    const content = EncodingConversionService.convertToUtf8(fileBuffer, detectedEncoding);
                     const lines = content.split(/\r?\n/);
                     const entries = content.split(/\r?\n\r?\n/).filter((entry) => entry.trim()).length;
 
+                    // Check for text double-encoded by another tool
+                    const mojibake = MojibakeRepairService.repair(content);
+
+                    // Check for right-to-left lines stored backwards
+                    const visualOrder = RtlTextService.detectVisualOrder(content);
+
                     // Detect line endings
                     const hasCarriageReturn = content.includes('\r\n');
                     const lineEnding = hasCarriageReturn ? 'CRLF' : 'LF';
@@ -54,11 +66,13 @@ export class InfoCommandCreator extends BaseCommandCreator<IInfoCommandOptions>
                     console.log('\n🔤 ' + chalk.bold('Encoding Information'));
                     console.log(`   • Detected Encoding: ${chalk.green(detectedEncoding)}`);
                     console.log(`   • BOM: ${hasBOM ? chalk.green('Yes') : chalk.red('No')}`);
+                    console.log(`   • Mojibake: ${this.describeMojibake(mojibake)}`);
                     console.log(`   • Line Endings: ${chalk.blue(lineEnding)}`);
 
                     console.log('\n📊 ' + chalk.bold('Content Statistics'));
                     console.log(`   • Total Lines: ${chalk.yellow(lines.length)}`);
                     console.log(`   • Subtitle Entries: ${chalk.yellow(entries)}`);
+                    console.log(`   • Visual Order: ${this.describeVisualOrder(visualOrder)}`);
                 } catch (error) {
                     console.error(chalk.red('❌ Error analyzing subtitle file:'), (error as Error).message);
                     process.exit(1);
@@ -67,6 +81,22 @@ export class InfoCommandCreator extends BaseCommandCreator<IInfoCommandOptions>
         };
     }
 
+    private describeMojibake(repair: IMojibakeRepair): string {
+        if (repair.rounds === 0) return chalk.green('No');
+
+        return chalk.yellow(
+            `Yes, ${repair.repairs} runs read as ${repair.codepages.join(' then ')} (fix with --fix-mojibake)`,
+        );
+    }
+
+    private describeVisualOrder(detection: IVisualOrderDetection): string {
+        if (detection.reversed === 0) return chalk.green('No');
+
+        return chalk.yellow(
+            `Yes, ${detection.reversed} of ${detection.lines} right-to-left lines from line ${detection.line} (fix with --fix-visual-order)`,
+        );
+    }
+
     private formatFileSize(bytes: number): string {
         const units = ['B', 'KB', 'MB', 'GB'];
         let size = bytes;
@@ -1,4 +1,46 @@
 export const BASE_OPTIONS = [
+    {
+        flags: '--encoding <encoding>',
+        description: 'input encoding (e.g. windows1256); skips detection and any encodingOverrides',
+    },
+    {
+        flags: '--min-confidence <value>',
+        description: 'detection confidence (0 to 1) below which the encoding is reported as uncertain',
+    },
+    {
+        flags: '--low-confidence <policy>',
+        description: 'what to do below --min-confidence: warn or fail (default: warn)',
+    },
+    {
+        flags: '--fix-mojibake',
+        description: 'repair text double-encoded by other tools (e.g. "Ã©" back to "é")',
+    },
+    {
+        flags: '--mixed-encodings',
+        description: 'detect the encoding cue by cue, for files merged from differently encoded sources',
+    },
+    {
+        flags: '--invalid-bytes <policy>',
+        description:
+            'what to do when decoding leaves invalid bytes or control characters: ignore, warn or fail (default: warn)',
+    },
+    {
+        flags: '--detection-sample-size <bytes>',
+        description: 'bytes of large files to detect the encoding from, 0 for all of them (default: 524288)',
+    },
+    {
+        flags: '--to <format>',
+        description: 'output format (srt, sub, ass, ssa, vtt, ttml, txt); defaults to the input format',
+    },
+    {
+        flags: '--fps <rate>',
+        description: 'frame rate for MicroDVD (.sub) files, e.g. 23.976 or 25',
+    },
+    {
+        flags: '--language <code>',
+        description:
+            'subtitle language (e.g. ar); picks the SAMI (.smi) track, labels TTML output and helps tell apart codepages (VNI and TCVN3 for vi)',
+    },
     {
         flags: '-b, --backup',
         description: 'create backup of original file',
@@ -7,9 +49,17 @@ export const BASE_OPTIONS = [
         flags: '--no-overwrite-backup',
         description: 'create numbered backups instead of overwriting existing backup',
     },
+    {
+        flags: '--output-encoding <encoding>',
+        description: 'encoding to write (e.g. windows1256, utf16le); defaults to utf8',
+    },
+    {
+        flags: '--unrepresentable <policy>',
+        description: 'characters the output encoding lacks: fail, replace (with ?) or transliterate (default: fail)',
+    },
     {
         flags: '--bom',
-        description: 'add UTF-8 BOM to output file',
+        description: 'add a byte order mark to the output file (UTF-8/16/32 only)',
     },
     {
         flags: '--line-endings <type>',
@@ -27,6 +77,23 @@ export const BASE_OPTIONS = [
         flags: '--retry-delay <ms>',
         description: 'delay between retries in milliseconds',
     },
+    {
+        flags: '--rules <file>',
+        description: 'YAML or JSON file of find/replace rules, applied after those in the config',
+    },
+    {
+        flags: '--fix-visual-order',
+        description: 'reverse Hebrew and Arabic lines stored backwards (visual order) for players without bidi support',
+    },
+    {
+        flags: '--fix-rtl-punctuation',
+        description:
+            'move punctuation typed at the wrong end of Arabic, Hebrew and Persian lines (".مرحبا") to where it belongs',
+    },
+    {
+        flags: '--rtl-markers <type>',
+        description: 'add bidi controls to right-to-left lines for players that need them: rlm or rle',
+    },
     {
         flags: '--strip-html',
         description: 'strip HTML tags',
@@ -67,6 +134,14 @@ export const BASE_OPTIONS = [
         flags: '--strip-bidi-control',
         description: 'remove bidirectional control characters (like U+202B)',
     },
+    {
+        flags: '--strip-sdh',
+        description: 'remove hearing-impaired annotations, dropping cues left empty',
+    },
+    {
+        flags: '--sdh-parts <parts>',
+        description: 'strip only some SDH annotations: brackets,parentheses,music,speakers (implies --strip-sdh)',
+    },
     {
         flags: '--strip-all',
         description: 'strip all formatting (equivalent to all strip options)',
@@ -117,4 +192,8 @@ export const BATCH_OPTIONS = [
         flags: '--preserve-structure',
         description: 'preserve directory structure in output',
     },
+    {
+        flags: '--encoding-consensus',
+        description: 'read files with an unsure encoding guess using the encoding most of their directory shares',
+    },
 ];
@@ -0,0 +1,84 @@
+import { TInvalidBytesPolicy, TLowConfidencePolicy, TUnrepresentablePolicy } from '@subzilla/types';
+
+const INVALID_BYTES_POLICIES: TInvalidBytesPolicy[] = ['ignore', 'warn', 'fail'];
+const LOW_CONFIDENCE_POLICIES: TLowConfidencePolicy[] = ['warn', 'fail'];
+const UNREPRESENTABLE_POLICIES: TUnrepresentablePolicy[] = ['fail', 'replace', 'transliterate'];
+
+/**
+ * Check a policy option against the values it accepts
+ */
+function parsePolicy<T extends string>(option: string, value: string | undefined, policies: T[]): T | undefined {
+    if (value === undefined) return undefined;
+
+    if (!policies.includes(value as T)) {
+        const choices = `${policies.slice(0, -1).join(', ')} or ${policies[policies.length - 1]}`;
+
+        throw new Error(`Unknown ${option} policy "${value}"; use ${choices}`);
+    }
+
+    return value as T;
+}
+
+/**
+ * Read --min-confidence as a number from 0 to 1
+ */
+export function parseConfidence(value: string | undefined): number | undefined {
+    if (value === undefined) return undefined;
+
+    const confidence = Number(value);
+
+    if (value.trim() === '' || !(confidence >= 0 && confidence <= 1)) {
+        throw new Error(`Invalid minimum confidence "${value}"; use a number from 0 to 1`);
+    }
+
+    return confidence;
+}
+
+/**
+ * Read --fps as a frame rate above 0
+ */
+export function parseFps(value: string | undefined): number | undefined {
+    if (value === undefined) return undefined;
+
+    const fps = Number(value);
+
+    if (value.trim() === '' || !(fps > 0 && Number.isFinite(fps))) {
+        throw new Error(`Invalid frame rate "${value}"; use a number of frames per second above 0`);
+    }
+
+    return fps;
+}
+
+/**
+ * Check --low-confidence against the policies detection knows
+ */
+export function parseLowConfidence(value: string | undefined): TLowConfidencePolicy | undefined {
+    return parsePolicy('low-confidence', value, LOW_CONFIDENCE_POLICIES);
+}
+
+/**
+ * Read --detection-sample-size as a whole number of bytes, 0 meaning the whole file
+ */
+export function parseSampleSize(value: string | undefined): number | undefined {
+    if (value === undefined) return undefined;
+
+    if (!/^\s*\d+\s*$/.test(value)) {
+        throw new Error(`Invalid detection sample size "${value}"; use a whole number of bytes, 0 for all of them`);
+    }
+
+    return parseInt(value, 10);
+}
+
+/**
+ * Check --unrepresentable against the policies the converter knows
+ */
+export function parseUnrepresentable(value: string | undefined): TUnrepresentablePolicy | undefined {
+    return parsePolicy('unrepresentable', value, UNREPRESENTABLE_POLICIES);
+}
+
+/**
+ * Check --invalid-bytes against the policies the decoder knows
+ */
+export function parseInvalidBytes(value: string | undefined): TInvalidBytesPolicy | undefined {
+    return parsePolicy('invalid-bytes', value, INVALID_BYTES_POLICIES);
+}
@@ -0,0 +1,14 @@
+import { ConfigManager } from '@subzilla/core';
+import { IConfig, IConvertCommandOptions, IReplaceRule } from '@subzilla/types';
+
+/**
+ * The config's replace rules, followed by those of a `--rules` file
+ */
+export async function createReplaceRules(
+    options: IConvertCommandOptions,
+    config: IConfig,
+): Promise<IReplaceRule[] | undefined> {
+    if (!options.rules) return config.replace;
+
+    return [...(config.replace ?? []), ...(await ConfigManager.loadRules(options.rules))];
+}
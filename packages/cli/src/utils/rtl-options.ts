@@ -0,0 +1,28 @@
+import { IConfig, IConvertCommandOptions, IRtlOptions, TRtlMarkers } from '@subzilla/types';
+
+const RTL_MARKERS: TRtlMarkers[] = ['rlm', 'rle'];
+
+/**
+ * The config's right-to-left fixes, with those turned on by flags added
+ */
+export function createRtlOptions(options: IConvertCommandOptions, config: IConfig): IRtlOptions | undefined {
+    const rtlOptions: IRtlOptions = { ...config.rtl };
+
+    if (options.fixVisualOrder) {
+        rtlOptions.visualOrder = true;
+    }
+
+    if (options.fixRtlPunctuation) {
+        rtlOptions.fixPunctuation = true;
+    }
+
+    if (options.rtlMarkers) {
+        if (!RTL_MARKERS.includes(options.rtlMarkers as TRtlMarkers)) {
+            throw new Error(`Unknown RTL markers "${options.rtlMarkers}"; use ${RTL_MARKERS.join(' or ')}`);
+        }
+
+        rtlOptions.markers = options.rtlMarkers as TRtlMarkers;
+    }
+
+    return rtlOptions.visualOrder || rtlOptions.fixPunctuation || rtlOptions.markers ? rtlOptions : undefined;
+}
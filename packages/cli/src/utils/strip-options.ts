@@ -1,6 +1,29 @@
-import { IStripOptions, IStripCommandOptions, IConfig } from '@subzilla/types';
+import { IHearingImpairedOptions, IStripOptions, IStripCommandOptions, IConfig } from '@subzilla/types';
+
+const HEARING_IMPAIRED_PARTS: Array<keyof IHearingImpairedOptions> = ['brackets', 'parentheses', 'music', 'speakers'];
+
+/**
+ * Turn `--strip-sdh` (every annotation) or `--sdh-parts brackets,music` into options
+ */
+function parseHearingImpaired(value: string | undefined): true | IHearingImpairedOptions {
+    if (value === undefined || value.trim().toLowerCase() === 'all') return true;
+
+    const parts = value
+        .split(',')
+        .map((part) => part.trim().toLowerCase())
+        .filter((part) => part !== '');
+    const unknown = parts.find((part) => !HEARING_IMPAIRED_PARTS.includes(part as keyof IHearingImpairedOptions));
+
+    if (unknown) {
+        throw new Error(`Unknown SDH annotation "${unknown}"; use ${HEARING_IMPAIRED_PARTS.join(', ')}`);
+    }
+
+    return Object.fromEntries(parts.map((part) => [part, true]));
+}
 
 export function createStripOptions(options: IStripCommandOptions, config: IConfig): IStripOptions | undefined {
+    const hearingImpaired =
+        options.stripSdh || options.sdhParts ? parseHearingImpaired(options.sdhParts) : config.strip?.hearingImpaired;
     const stripOptions: IStripOptions = options.stripAll
         ? {
               html: true,
@@ -27,5 +50,10 @@ export function createStripOptions(options: IStripCommandOptions, config: IConfi
               bidiControl: options.stripBidiControl || config.strip?.bidiControl || false,
           };
 
+    // SDH removal deletes dialogue, not formatting, so --strip-all leaves it to --strip-sdh
+    if (hearingImpaired) {
+        stripOptions.hearingImpaired = hearingImpaired;
+    }
+
     return Object.values(stripOptions).some((v) => v) ? stripOptions : undefined;
 }
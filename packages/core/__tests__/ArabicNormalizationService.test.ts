@@ -0,0 +1,43 @@
+import { describe, it, expect } from '@jest/globals';
+
+import ArabicNormalizationService from '../src/ArabicNormalizationService';
+
+describe('ArabicNormalizationService', () => {
+    describe('normalize', () => {
+        it('should map presentation forms back to letters', () => {
+            // "السلام" as isolated, initial, medial and final glyphs, and the lam-alef ligature
+            const shaped = '\uFE8D\uFEDF\uFEB4\uFEFC\uFEE2 \uFEFB';
+
+            expect(ArabicNormalizationService.normalize(shaped, { normalize: true })).toBe('السلام لا');
+        });
+
+        it('should remove tatweel', () => {
+            expect(ArabicNormalizationService.normalize('مـــرحـبـا', { normalize: true })).toBe('مرحبا');
+        });
+
+        it('should keep tashkeel unless asked to remove it', () => {
+            const voweled = 'مَرْحَبًا';
+
+            expect(ArabicNormalizationService.normalize(voweled, { normalize: true })).toBe(voweled);
+            expect(ArabicNormalizationService.normalize(voweled, { removeTashkeel: true })).toBe('مرحبا');
+        });
+
+        it('should restore Arabic punctuation after Arabic words', () => {
+            expect(ArabicNormalizationService.normalize('كيف حالك?\nنعم, شكرا; وأنت ?', { punctuation: true })).toBe(
+                'كيف حالك؟\nنعم، شكرا؛ وأنت ؟',
+            );
+        });
+
+        it('should leave punctuation after Latin text and digits alone', () => {
+            const text = 'Really? 1,000 مرة, OK;';
+
+            expect(ArabicNormalizationService.normalize(text, { punctuation: true })).toBe('Really? 1,000 مرة، OK;');
+        });
+
+        it('should change nothing when no option is on', () => {
+            const text = 'مـرحـبـا, \uFEFB?';
+
+            expect(ArabicNormalizationService.normalize(text, {})).toBe(text);
+        });
+    });
+});
@@ -0,0 +1,153 @@
+import { describe, it, expect } from '@jest/globals';
+
+import AssFormat from '../src/formats/AssFormat';
+import FormatRegistry from '../src/formats/FormatRegistry';
+import SrtFormat from '../src/formats/SrtFormat';
+
+const ASS_SCRIPT = `[Script Info]
+; Script generated by Aegisub
+Title: Test
+ScriptType: v4.00+
+PlayResX: 1920
+
+[V4+ Styles]
+Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding
+Style: Default,Arial,48,&H00FFFFFF,&H000000FF,&H00000000,&H00000000,0,0,0,0,100,100,0,0,1,2,2,2,10,10,10,1
+
+[Events]
+Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text
+Comment: 0,0:00:00.00,0:00:01.00,Default,,0,0,0,,Translator note
+Dialogue: 0,0:00:01.00,0:00:03.50,Default,Ahmed,0,0,0,,{\\an8}Hello, world\\NSecond line
+Dialogue: 1,0:01:02.25,1:00:00.00,Sign,,10,20,30,fade,مرحبا
+`;
+
+describe('AssFormat', () => {
+    describe('parse', () => {
+        it('should turn Dialogue events into cues', () => {
+            const document = new AssFormat().parse(ASS_SCRIPT);
+
+            expect(document.format).toBe('ass');
+            expect(document.warnings).toEqual([]);
+            expect(document.cues).toHaveLength(2);
+            expect(document.cues[0]).toEqual({
+                index: 1,
+                start: 1000,
+                end: 3500,
+                lines: ['{\\an8}Hello, world', 'Second line'],
+                tags: ['{\\an8}'],
+                voice: 'Ahmed',
+                fields: {
+                    Layer: '0',
+                    Style: 'Default',
+                    Name: 'Ahmed',
+                    MarginL: '0',
+                    MarginR: '0',
+                    MarginV: '0',
+                    Effect: '',
+                },
+            });
+            expect(document.cues[1].start).toBe(62250);
+            expect(document.cues[1].end).toBe(3600000);
+        });
+
+        it('should keep every non-dialogue section verbatim', () => {
+            const document = new AssFormat().parse(ASS_SCRIPT);
+
+            expect(document.sections?.map((section) => section.name)).toEqual(['Script Info', 'V4+ Styles', 'Events']);
+            expect(document.sections?.[0].lines).toContain('; Script generated by Aegisub');
+            expect(document.sections?.[2].lines).toEqual([
+                'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text',
+                'Comment: 0,0:00:00.00,0:00:01.00,Default,,0,0,0,,Translator note',
+            ]);
+        });
+
+        it('should follow the Format line when fields are reordered', () => {
+            const content = `[Events]
+Format: Start, End, Style, Text
+Dialogue: 0:00:01.00,0:00:02.00,Default,Reordered, with comma`;
+
+            const document = new AssFormat().parse(content);
+
+            expect(document.cues[0].lines).toEqual(['Reordered, with comma']);
+            expect(document.cues[0].fields).toEqual({ Style: 'Default' });
+        });
+
+        it('should keep unreadable dialogue lines and warn about them', () => {
+            const content = `[Events]
+Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text
+Dialogue: 0,broken,0:00:02.00,Default,,0,0,0,,Text`;
+
+            const document = new AssFormat().parse(content);
+
+            expect(document.cues).toHaveLength(0);
+            expect(document.warnings).toHaveLength(1);
+            expect(document.sections?.[0].lines).toHaveLength(2);
+        });
+
+        it('should read SSA scripts with the Marked field', () => {
+            const content = `[Script Info]
+ScriptType: v4.00
+
+[Events]
+Format: Marked, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text
+Dialogue: Marked=0,0:00:01.00,0:00:02.00,Default,NTP,0000,0000,0000,!Effect,Old school`;
+
+            const document = new AssFormat('ssa').parse(content);
+
+            expect(document.format).toBe('ssa');
+            expect(document.cues[0].lines).toEqual(['Old school']);
+            expect(document.cues[0].fields?.Marked).toBe('Marked=0');
+        });
+    });
+
+    describe('serialize', () => {
+        it('should round-trip a script without touching the header or styles', () => {
+            const ass = new AssFormat();
+
+            expect(ass.serialize(ass.parse(ASS_SCRIPT))).toBe(ASS_SCRIPT);
+        });
+
+        it('should keep other events in place between dialogue lines', () => {
+            const content = `[Events]
+Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text
+Dialogue: 0,0:00:01.00,0:00:02.00,Default,,0,0,0,,First
+Comment: 0,0:00:02.00,0:00:03.00,Default,,0,0,0,,Between
+Dialogue: 0,0:00:03.00,0:00:04.00,Default,,0,0,0,,Second
+Comment: 0,0:00:04.00,0:00:05.00,Default,,0,0,0,,After
+`;
+            const ass = new AssFormat();
+
+            expect(ass.serialize(ass.parse(content))).toBe(content);
+        });
+
+        it('should write a default header for documents from other formats', () => {
+            const document = new SrtFormat().parse('1\n00:00:01,000 --> 00:00:02,500\nLine one\nLine two\n');
+
+            const output = new AssFormat().serialize(document);
+
+            expect(output).toContain('[Script Info]\nScriptType: v4.00+');
+            expect(output).toContain('[V4+ Styles]');
+            expect(output).toContain(
+                'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text\nDialogue: 0,0:00:01.00,0:00:02.50,Default,,0,0,0,,Line one\\NLine two',
+            );
+        });
+    });
+});
+
+describe('FormatRegistry', () => {
+    it('should pick the reader from the file extension', () => {
+        expect(FormatRegistry.resolveInputFormat('movie.ASS')).toBe('ass');
+        expect(FormatRegistry.resolveInputFormat('movie.ssa', 'auto')).toBe('ssa');
+        expect(FormatRegistry.resolveInputFormat('movie.srt')).toBe('srt');
+        expect(FormatRegistry.resolveInputFormat('movie.vtt')).toBe('vtt');
+    });
+
+    it('should let an explicit input format override the extension', () => {
+        expect(FormatRegistry.resolveInputFormat('movie.txt', 'ass')).toBe('ass');
+    });
+
+    it('should fall back to SRT for unknown extensions', () => {
+        expect(FormatRegistry.resolveInputFormat('movie.txt')).toBe('srt');
+        expect(FormatRegistry.resolveInputFormat('movie.xyz', 'auto')).toBe('srt');
+    });
+});
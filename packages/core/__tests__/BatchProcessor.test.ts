@@ -3,10 +3,13 @@ import os from 'os';
 import path from 'path';
 
 import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import iconv from 'iconv-lite';
 
 import { IBatchOptions } from '@subzilla/types';
 
 import BatchProcessor from '../src/BatchProcessor';
+import EncodingDetectionService from '../src/EncodingDetectionService';
+import SubtitleProcessor from '../src/SubtitleProcessor';
 
 // Mock console methods to reduce test output noise
 const originalConsoleLog = console.log;
@@ -536,6 +539,146 @@ Test subtitle content
                 expect(stats.filesByDirectory[dir2Path].total).toBe(1);
             });
 
+            it('should record files written from a lossy decode', async () => {
+                const lossyPath = path.join(tempDir, 'lossy.srt');
+
+                await createTestSrtFile(path.join(tempDir, 'clean.srt'));
+                await fs.promises.writeFile(
+                    lossyPath,
+                    Buffer.concat([Buffer.from('1\n00:00:01,000 --> 00:00:02,000\nCaf'), Buffer.from([0xe9, 0x0a])]),
+                );
+
+                const pattern = path.join(tempDir, '*.srt');
+                const stats = await processor.processBatch(
+                    pattern,
+                    createDefaultOptions({ common: { encoding: 'utf8' } }),
+                );
+                const ignored = await new BatchProcessor().processBatch(
+                    pattern,
+                    createDefaultOptions({
+                        common: { encoding: 'utf8', invalidBytes: 'ignore', overwriteExisting: true },
+                    }),
+                );
+
+                expect(stats.successful).toBe(2);
+                expect(stats.failed).toBe(0);
+                expect(stats.errors).toEqual([
+                    {
+                        file: lossyPath,
+                        error: 'Lossy decode: 1 invalid byte (from line 3)',
+                        decodeQuality: { replacements: 1, controls: 0, c1Controls: 0, line: 3 },
+                    },
+                ]);
+                expect(ignored.errors).toHaveLength(0);
+            });
+
+            /**
+             * Three windows-1256 episodes chardet is sure of, and a short one it is not
+             */
+            async function createSeason(): Promise<string> {
+                const season = path.join(tempDir, 'season');
+                const dialogue = 'كيف حالك اليوم؟ أنا بخير والحمد لله';
+
+                await fs.promises.mkdir(season, { recursive: true });
+
+                for (const episode of ['e01', 'e02', 'e03']) {
+                    await fs.promises.writeFile(
+                        path.join(season, `${episode}.srt`),
+                        iconv.encode(
+                            `1\n00:00:01,000 --> 00:00:02,000\nمرحبا بكم في الحلقة ${episode}\n\n2\n00:00:03,000 --> 00:00:04,000\n${dialogue}\n`,
+                            'windows1256',
+                        ),
+                    );
+                }
+
+                await fs.promises.writeFile(
+                    path.join(season, 'e04.srt'),
+                    iconv.encode('1\n00:00:01,000 --> 00:00:02,000\nمرحبا\n', 'windows1256'),
+                );
+
+                return season;
+            }
+
+            it('should read unsure files with the encoding their directory shares', async () => {
+                const season = await createSeason();
+
+                const stats = await processor.processBatch(
+                    path.join(season, '*.srt'),
+                    createDefaultOptions({
+                        batch: { recursive: false, parallel: false, skipExisting: false, encodingConsensus: true },
+                    }),
+                );
+                const output = await fs.promises.readFile(path.join(tempDir, 'output', 'e04.subzilla.srt'), 'utf8');
+
+                expect(stats.successful).toBe(4);
+                expect(output).toContain('مرحبا');
+                expect(stats.consensusOverrides).toEqual([
+                    expect.objectContaining({ file: path.join(season, 'e04.srt'), encoding: 'windows-1256' }),
+                ]);
+            });
+
+            it('should detect each file once under encoding consensus', async () => {
+                const season = await createSeason();
+                const detect = jest.spyOn(EncodingDetectionService, 'detectEncodingFromBuffer');
+
+                try {
+                    await processor.processBatch(
+                        path.join(season, '*.srt'),
+                        createDefaultOptions({
+                            batch: { recursive: false, parallel: false, skipExisting: false, encodingConsensus: true },
+                        }),
+                    );
+
+                    // The outlier's forced encoding is returned without detecting
+                    const detected = detect.mock.calls.filter(([, options]) => !options?.override);
+
+                    expect(detected).toHaveLength(4);
+                } finally {
+                    detect.mockRestore();
+                }
+            });
+
+            it('should process the content the consensus pass read', async () => {
+                const season = await createSeason();
+                const processFile = jest.spyOn(SubtitleProcessor.prototype, 'processFile');
+
+                try {
+                    await processor.processBatch(
+                        path.join(season, '*.srt'),
+                        createDefaultOptions({
+                            batch: { recursive: false, parallel: false, skipExisting: false, encodingConsensus: true },
+                        }),
+                    );
+
+                    expect(processFile).toHaveBeenCalledTimes(4);
+
+                    for (const [file, , options] of processFile.mock.calls) {
+                        expect(options?.input).toEqual(await fs.promises.readFile(file));
+                    }
+                } finally {
+                    processFile.mockRestore();
+                }
+            });
+
+            it('should not carry a consensus into the next batch', async () => {
+                const season = await createSeason();
+                const pattern = path.join(season, '*.srt');
+
+                await processor.processBatch(
+                    pattern,
+                    createDefaultOptions({
+                        batch: { recursive: false, parallel: false, skipExisting: false, encodingConsensus: true },
+                    }),
+                );
+
+                const stats = await processor.processBatch(
+                    pattern,
+                    createDefaultOptions({ batch: { recursive: false, parallel: false, skipExisting: false } }),
+                );
+
+                expect(stats.consensusOverrides).toBeUndefined();
+            });
+
             it('should update directory stats for successful files', async () => {
                 await createTestSrtFile(path.join(tempDir, 'file1.srt'));
                 await createTestSrtFile(path.join(tempDir, 'file2.srt'));
@@ -616,6 +759,21 @@ Test subtitle content
                 expect(stats.total).toBe(0);
             });
 
+            it('should only pick up files without a subtitle extension when they hold subtitles', async () => {
+                await createTestSrtFile(path.join(tempDir, 'episode.txt'));
+                await createTestSrtFile(path.join(tempDir, 'notes.txt'), 'Remember to check the timings');
+                await createTestSrtFile(path.join(tempDir, 'movie.srt'));
+
+                const pattern = path.join(tempDir, '*');
+                const options = createDefaultOptions();
+
+                const stats = await processor.processBatch(pattern, options);
+
+                expect(stats.total).toBe(2);
+                expect(stats.successful).toBe(2);
+                expect(console.log).toHaveBeenCalledWith('⏭️ Skipping notes.txt: not a subtitle file');
+            });
+
             it('should handle special characters in file names', async () => {
                 await createTestSrtFile(path.join(tempDir, 'file (1).srt'));
                 await createTestSrtFile(path.join(tempDir, 'file [2].srt'));
@@ -788,6 +946,23 @@ Test subtitle content
 
                 expect(subzillaFiles.length).toBeGreaterThan(0);
             });
+
+            it('should name misnamed files in the output directory after what they contain', async () => {
+                await fs.promises.writeFile(
+                    path.join(tempDir, 'misnamed.srt'),
+                    'WEBVTT\n\n00:00:01.000 --> 00:00:02.000\nHello\n',
+                    'utf8',
+                );
+
+                const outputDir = path.join(tempDir, 'output');
+                const stats = await processor.processBatch(
+                    path.join(tempDir, '*.srt'),
+                    createDefaultOptions({ common: { outputDir } }),
+                );
+
+                expect(stats.successful).toBe(1);
+                expect(await fs.promises.readdir(outputDir)).toEqual(['misnamed.subzilla.vtt']);
+            });
         });
 
         describe('mixed scenarios', () => {
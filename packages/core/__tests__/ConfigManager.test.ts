@@ -514,7 +514,57 @@ input:
                 expect(config.input?.format).toBe('auto');
             });
 
-            it('should return defaults for invalid output encoding', async () => {
+            it('should accept UTF-32 and CJK input encodings', async () => {
+                const configContent = `
+input:
+  encoding: shiftjis
+  encodingOverrides:
+    '*.zh.srt': gb18030
+    '*.utf32.srt': utf32le
+`;
+                const configPath = path.join(tempDir, '.subzillarc');
+
+                await fs.promises.writeFile(configPath, configContent, 'utf8');
+
+                const { config } = await ConfigManager.loadConfig();
+
+                expect(config.input?.encoding).toBe('shiftjis');
+                expect(config.input?.encodingOverrides).toEqual({ '*.zh.srt': 'gb18030', '*.utf32.srt': 'utf32le' });
+            });
+
+            it('should accept replace rules and fill in their defaults', async () => {
+                const configContent = `
+replace:
+  - pattern: 'Subtitled by .*'
+    flags: i
+  - pattern: '\\bMohamad\\b'
+    replacement: Mohammed
+    scope: all
+    language: en
+`;
+                const configPath = path.join(tempDir, '.subzillarc');
+
+                await fs.promises.writeFile(configPath, configContent, 'utf8');
+
+                const { config } = await ConfigManager.loadConfig();
+
+                expect(config.replace).toEqual([
+                    { pattern: 'Subtitled by .*', flags: 'i', replacement: '', scope: 'text' },
+                    { pattern: '\\bMohamad\\b', replacement: 'Mohammed', scope: 'all', language: 'en' },
+                ]);
+            });
+
+            it('should return defaults for a replace rule that is not a valid regex', async () => {
+                const configPath = path.join(tempDir, '.subzillarc');
+
+                await fs.promises.writeFile(configPath, "replace:\n  - pattern: '(unclosed'\n", 'utf8');
+
+                const { config } = await ConfigManager.loadConfig();
+
+                expect(config.replace).toBeUndefined();
+            });
+
+            it('should accept non-UTF-8 output encodings', async () => {
                 const configContent = `
 output:
   encoding: utf16le
@@ -525,7 +575,21 @@ output:
 
                 const { config } = await ConfigManager.loadConfig();
 
-                // Output encoding must be 'utf8' per schema
+                expect(config.output?.encoding).toBe('utf16le');
+                expect(config.output?.unrepresentable).toBe('fail');
+            });
+
+            it('should return defaults for invalid output encoding', async () => {
+                const configContent = `
+output:
+  encoding: ''
+`;
+                const configPath = path.join(tempDir, '.subzillarc');
+
+                await fs.promises.writeFile(configPath, configContent, 'utf8');
+
+                const { config } = await ConfigManager.loadConfig();
+
                 expect(config.output?.encoding).toBe('utf8');
             });
 
@@ -693,6 +757,38 @@ anotherUnknown:
         });
     });
 
+    describe('loadRules', () => {
+        it('should load a list of rules', async () => {
+            const rulesPath = path.join(tempDir, 'rules.yml');
+
+            await fs.promises.writeFile(rulesPath, '- pattern: colour\n  replacement: color\n', 'utf8');
+
+            expect(await ConfigManager.loadRules(rulesPath)).toEqual([
+                { pattern: 'colour', replacement: 'color', scope: 'text' },
+            ]);
+        });
+
+        it('should load the replace section of a config file, JSON included', async () => {
+            const rulesPath = path.join(tempDir, 'rules.json');
+
+            await fs.promises.writeFile(rulesPath, JSON.stringify({ replace: [{ pattern: '^-+$' }] }), 'utf8');
+
+            expect(await ConfigManager.loadRules(rulesPath)).toEqual([
+                { pattern: '^-+$', replacement: '', scope: 'text' },
+            ]);
+        });
+
+        it('should reject invalid rules with the file and rule named', async () => {
+            const rulesPath = path.join(tempDir, 'rules.yml');
+
+            await fs.promises.writeFile(rulesPath, "- pattern: '[a-'\n", 'utf8');
+
+            await expect(ConfigManager.loadRules(rulesPath)).rejects.toThrow(
+                `Invalid replace rules in ${rulesPath}: 0.pattern: Invalid regular expression`,
+            );
+        });
+    });
+
     describe('saveConfig', () => {
         it('should save valid configuration to file', async () => {
             const config = {
@@ -92,4 +92,78 @@ describe('EncodingConversionService', () => {
             expect(result).toContain('\r');
         });
     });
+
+    describe('convertFromUtf8', () => {
+        it('should encode to legacy codepages', () => {
+            const { buffer, unrepresentable } = EncodingConversionService.convertFromUtf8('مرحبا', 'windows1256');
+
+            expect(buffer).toEqual(Buffer.from([0xe3, 0xd1, 0xcd, 0xc8, 0xc7]));
+            expect(unrepresentable).toEqual([]);
+        });
+
+        it('should add a BOM only where the encoding has one', () => {
+            const utf16 = EncodingConversionService.convertFromUtf8('Hi', 'utf16le', { bom: true });
+            const windows = EncodingConversionService.convertFromUtf8('Hi', 'windows1256', { bom: true });
+
+            expect(utf16.buffer).toEqual(Buffer.from([0xff, 0xfe, 0x48, 0x00, 0x69, 0x00]));
+            expect(windows.buffer).toEqual(Buffer.from('Hi'));
+        });
+
+        it('should fail on characters the encoding cannot represent by default', () => {
+            expect(() => EncodingConversionService.convertFromUtf8('Hello\nمرحبا 😀', 'windows1252')).toThrow(
+                'windows1252 cannot represent "م" (line 2), "ر" (line 2), "ح" (line 2), "ب" (line 2), "ا" (line 2) and 1 more',
+            );
+        });
+
+        it('should replace them with ? and report each one', () => {
+            const { buffer, unrepresentable } = EncodingConversionService.convertFromUtf8(
+                'Hi 😀\nBye 😀 ★',
+                'windows1256',
+                { policy: 'replace' },
+            );
+
+            expect(buffer.toString('latin1')).toBe('Hi ?\nBye ? ?');
+            expect(unrepresentable).toEqual([
+                { char: '😀', count: 2, line: 1, replacement: '?' },
+                { char: '★', count: 1, line: 2, replacement: '?' },
+            ]);
+        });
+
+        it('should transliterate to the nearest characters the encoding has', () => {
+            const arabic = EncodingConversionService.convertFromUtf8('Ça ﻻ ő 😀', 'windows1256', {
+                policy: 'transliterate',
+            });
+            const latin = EncodingConversionService.convertFromUtf8('“Hi” — œuvre…', 'iso88596', {
+                policy: 'transliterate',
+            });
+
+            expect(EncodingConversionService.convertToUtf8(arabic.buffer, 'windows1256')).toBe('Ca لا o ?');
+            expect(arabic.unrepresentable.map((entry) => entry.replacement)).toEqual(['C', 'لا', 'o', '?']);
+            expect(latin.buffer.toString('latin1')).toBe('"Hi" - oeuvre...');
+        });
+    });
+
+    describe('assessDecoded', () => {
+        it('should count replacement and control characters from the first line they appear on', () => {
+            const decoded = EncodingConversionService.convertToUtf8(
+                Buffer.from([0x48, 0x69, 0x0a, 0xff, 0xfe, 0x0a, 0x01, 0x09, 0x0d, 0x0a, 0xc2, 0x85]),
+                'utf8',
+            );
+            const quality = EncodingConversionService.assessDecoded(decoded);
+
+            expect(quality).toEqual({ replacements: 2, controls: 1, c1Controls: 1, line: 2 });
+            expect(EncodingConversionService.describeDecodeQuality(quality)).toBe(
+                '2 invalid bytes, 1 control character, 1 C1 control (from line 2)',
+            );
+        });
+
+        it('should find nothing wrong with clean text', () => {
+            const quality = EncodingConversionService.assessDecoded(
+                '1\r\n00:00:01,000 --> 00:00:02,000\r\n\tمرحبا\r\n',
+            );
+
+            expect(quality).toEqual({ replacements: 0, controls: 0, c1Controls: 0 });
+            expect(EncodingConversionService.describeDecodeQuality(quality)).toBe('');
+        });
+    });
 });
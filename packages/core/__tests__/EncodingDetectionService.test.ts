@@ -3,6 +3,7 @@ import os from 'os';
 import path from 'path';
 
 import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import iconv from 'iconv-lite';
 
 import EncodingDetectionService from '../src/EncodingDetectionService';
 
@@ -83,6 +84,24 @@ describe('EncodingDetectionService', () => {
             expect(encoding).toBe('UTF-16BE');
         });
 
+        it('should detect UTF-32LE with BOM', async () => {
+            // UTF-32LE BOM: FF FE 00 00, which starts like UTF-16LE's
+            await fs.promises.writeFile(testFilePath, iconv.encode('Hello World', 'utf32le', { addBOM: true }));
+
+            const encoding = await EncodingDetectionService.detectEncoding(testFilePath);
+
+            expect(encoding).toBe('UTF-32LE');
+        });
+
+        it('should detect UTF-32BE with BOM', async () => {
+            // UTF-32BE BOM: 00 00 FE FF
+            await fs.promises.writeFile(testFilePath, iconv.encode('Hello World', 'utf32be', { addBOM: true }));
+
+            const encoding = await EncodingDetectionService.detectEncoding(testFilePath);
+
+            expect(encoding).toBe('UTF-32BE');
+        });
+
         it('should detect Windows-1256 (Arabic encoding)', async () => {
             // Windows-1256 encoded Arabic text with longer content for better detection
             // Repeating Arabic text to give chardet more data to work with
@@ -257,4 +276,254 @@ This is a subtitle file with mixed content`;
             expect(endTime - startTime).toBeLessThan(1000); // Should complete within 1 second
         });
     });
+
+    describe('detectEncodingDetailed', () => {
+        it('should rank chardet candidates for 8-bit content', async () => {
+            const arabic = iconv.encode('مرحبا بكم في هذا الفيلم الجميل\r\n'.repeat(10), 'windows1256');
+
+            await fs.promises.writeFile(testFilePath, arabic);
+
+            const detection = await EncodingDetectionService.detectEncodingDetailed(testFilePath);
+
+            expect(detection.source).toBe('heuristic');
+            expect(detection.encoding).toBe('windows-1256');
+            expect(detection.confidence).toBe(detection.candidates[0].confidence);
+            expect(detection.confidence).toBeGreaterThan(0);
+            expect(detection.confidence).toBeLessThan(1);
+            expect(detection.candidates.map((candidate) => candidate.encoding)).toContain('ISO-8859-6');
+
+            const confidences = detection.candidates.map((candidate) => candidate.confidence);
+
+            expect(confidences).toEqual([...confidences].sort((a, b) => b - a));
+        });
+
+        it('should be certain about BOMs', async () => {
+            await fs.promises.writeFile(
+                testFilePath,
+                Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from('Hi', 'utf16le')]),
+            );
+
+            expect(await EncodingDetectionService.detectEncodingDetailed(testFilePath)).toEqual({
+                encoding: 'UTF-16LE',
+                confidence: 1,
+                source: 'bom',
+                candidates: [{ encoding: 'UTF-16LE', confidence: 1 }],
+            });
+        });
+
+        it('should be certain about plain ASCII content', async () => {
+            await fs.promises.writeFile(testFilePath, '1\n00:00:01,000 --> 00:00:02,000\nHello world\n');
+
+            const detection = await EncodingDetectionService.detectEncodingDetailed(testFilePath);
+
+            expect(detection).toMatchObject({ encoding: 'UTF-8', confidence: 1, source: 'heuristic' });
+        });
+
+        it('should pick the codepage that reads as the hinted language', async () => {
+            // Too short for chardet, which reads it as ISO-8859-8
+            await fs.promises.writeFile(testFilePath, iconv.encode('مرحبا، كيف حالك؟\n', 'windows1256'));
+
+            const detection = await EncodingDetectionService.detectEncodingDetailed(testFilePath, { language: 'ar' });
+
+            expect(detection.source).toBe('language');
+            expect(detection.encoding).toBe('windows-1256');
+            expect(detection.candidates[1].encoding).toBe('ISO-8859-6');
+            expect(detection.candidates[1].confidence).toBeLessThan(detection.confidence);
+        });
+
+        it('should tell same-script codepages apart by letter case', async () => {
+            await fs.promises.writeFile(testFilePath, iconv.encode('Привет, как дела?\n', 'koi8r'));
+
+            const koi8 = await EncodingDetectionService.detectEncodingDetailed(testFilePath, { language: 'ru-RU' });
+
+            await fs.promises.writeFile(testFilePath, iconv.encode('Привет, как дела?\n', 'win1251'));
+
+            const windows = await EncodingDetectionService.detectEncodingDetailed(testFilePath, { language: 'ru' });
+
+            expect(koi8.encoding).toBe('KOI8-R');
+            expect(windows.encoding).toBe('windows-1251');
+        });
+
+        it('should fall back to chardet when nothing reads as the hinted language', async () => {
+            // Read as windows-1251, "café crème" would be all Cyrillic-looking "cafй crиme"
+            await fs.promises.writeFile(testFilePath, iconv.encode('Un café crème, très bien\n', 'latin1'));
+
+            const detection = await EncodingDetectionService.detectEncodingDetailed(testFilePath, { language: 'ru' });
+
+            expect(detection.source).toBe('heuristic');
+            expect(detection.encoding).not.toBe('windows-1251');
+        });
+
+        it('should name CJK encodings so they decode', async () => {
+            const samples: Array<[string, string, string]> = [
+                ['shiftjis', 'Shift_JIS', 'こんにちは、元気ですか？今日はいい天気ですね。'],
+                ['eucjp', 'EUC-JP', 'こんにちは、元気ですか？今日はいい天気ですね。'],
+                ['gb18030', 'GB18030', '你好，你今天好吗？今天天气很好。'],
+                ['big5', 'Big5', '你好，你今天好嗎？今天天氣很好。'],
+                ['euckr', 'EUC-KR', '안녕하세요, 오늘 어떻게 지내세요? 날씨가 좋네요.'],
+            ];
+
+            for (const [encoding, expected, text] of samples) {
+                await fs.promises.writeFile(
+                    testFilePath,
+                    iconv.encode(`1\n00:00:01,000 --> 00:00:02,000\n${text}\n`, encoding),
+                );
+
+                const detection = await EncodingDetectionService.detectEncodingDetailed(testFilePath);
+
+                expect(detection.encoding).toBe(expected);
+                expect(iconv.decode(await fs.promises.readFile(testFilePath), detection.encoding)).toContain(text);
+            }
+        });
+
+        it('should report an override without reading the file', async () => {
+            const missingPath = path.join(tempDir, 'missing.srt');
+
+            expect(
+                await EncodingDetectionService.detectEncodingDetailed(missingPath, { override: 'iso88596' }),
+            ).toEqual({
+                encoding: 'iso88596',
+                confidence: 1,
+                source: 'override',
+                candidates: [{ encoding: 'iso88596', confidence: 1 }],
+            });
+        });
+    });
+
+    describe('detectEncodingFromBuffer', () => {
+        const cue = (index: number, text: string): string => `${index}\n00:00:01,000 --> 00:00:02,000\n${text}\n\n`;
+
+        it('should detect content already in memory as it would the file', async () => {
+            const data = iconv.encode('مرحبا، كيف حالك؟\n', 'windows1256');
+
+            await fs.promises.writeFile(testFilePath, data);
+
+            expect(EncodingDetectionService.detectEncodingFromBuffer(data, { language: 'ar' })).toEqual(
+                await EncodingDetectionService.detectEncodingDetailed(testFilePath, { language: 'ar' }),
+            );
+        });
+
+        it('should find the encoding from a sample of large content', () => {
+            // Plain English throughout, with the only Arabic far from the head and tail
+            const lines = Array.from({ length: 20000 }, (_, index) =>
+                cue(index + 1, index === 12000 ? 'مرحبا، كيف حالك؟ أنا بخير' : 'Nothing to see here'),
+            );
+            const data = iconv.encode(lines.join(''), 'windows1256');
+
+            const detection = EncodingDetectionService.detectEncodingFromBuffer(data, {
+                language: 'ar',
+                sampleSize: 64 * 1024,
+            });
+
+            expect(data.length).toBeGreaterThan(64 * 1024);
+            expect(detection.encoding).toBe('windows-1256');
+        });
+
+        it('should check the whole content for a BOM and plain ASCII', () => {
+            const ascii = Buffer.from(Array.from({ length: 5000 }, (_, index) => cue(index + 1, 'Hello')).join(''));
+
+            expect(EncodingDetectionService.detectEncodingFromBuffer(ascii, { sampleSize: 1024 }).confidence).toBe(1);
+            expect(
+                EncodingDetectionService.detectEncodingFromBuffer(
+                    Buffer.concat([Buffer.from([0xef, 0xbb, 0xbf]), ascii]),
+                    {
+                        sampleSize: 1024,
+                    },
+                ).source,
+            ).toBe('bom');
+        });
+    });
+
+    describe('detectEncodingSegments', () => {
+        const cue = (index: number, text: string): string =>
+            `${index}\n00:00:0${index},000 --> 00:00:0${index},500\n${text}\n\n`;
+
+        it('should split a merged file where its encoding changes', async () => {
+            const legacy = iconv.encode(cue(1, 'Hello') + cue(2, 'مرحبا بكم') + cue(3, 'كيف حالك؟'), 'windows1256');
+            const utf8 = Buffer.from(cue(4, 'À bientôt') + cue(5, 'مع السلامة'), 'utf8');
+
+            await fs.promises.writeFile(testFilePath, Buffer.concat([legacy, utf8]));
+
+            const segments = await EncodingDetectionService.detectEncodingSegments(testFilePath, { language: 'ar' });
+
+            expect(segments).toEqual([
+                { encoding: 'windows-1256', start: 0, end: legacy.length, firstCue: 1, lastCue: 3 },
+                { encoding: 'UTF-8', start: legacy.length, end: legacy.length + utf8.length, firstCue: 4, lastCue: 5 },
+            ]);
+        });
+
+        it('should keep ASCII cues with the encoding before them', async () => {
+            await fs.promises.writeFile(
+                testFilePath,
+                Buffer.concat([
+                    Buffer.from(cue(1, 'Привет'), 'utf8'),
+                    iconv.encode(cue(2, 'Как дела?') + cue(3, 'OK'), 'win1251'),
+                    Buffer.from(cue(4, 'Пока'), 'utf8'),
+                ]),
+            );
+
+            const segments = await EncodingDetectionService.detectEncodingSegments(testFilePath, { language: 'ru' });
+
+            expect(segments.map(({ encoding, firstCue, lastCue }) => [encoding, firstCue, lastCue])).toEqual([
+                ['UTF-8', 1, 1],
+                ['windows-1251', 2, 3],
+                ['UTF-8', 4, 4],
+            ]);
+        });
+
+        it('should return one segment for files in a single encoding', async () => {
+            const content = iconv.encode(cue(1, 'مرحبا بكم') + cue(2, 'كيف حالك؟'), 'windows1256');
+
+            await fs.promises.writeFile(testFilePath, content);
+
+            expect(await EncodingDetectionService.detectEncodingSegments(testFilePath, { language: 'ar' })).toEqual([
+                { encoding: 'windows-1256', start: 0, end: content.length, firstCue: 1, lastCue: 2 },
+            ]);
+        });
+    });
+
+    describe('detectConsensus', () => {
+        const episode = (text: string): Buffer =>
+            iconv.encode(
+                `1\n00:00:01,000 --> 00:00:02,000\n${text}\n\n2\n00:00:03,000 --> 00:00:04,000\nكيف حالك اليوم؟ أنا بخير والحمد لله\n`,
+                'windows1256',
+            );
+
+        it('should find the encoding a group shares and its unsure outliers', async () => {
+            const files = ['e01.srt', 'e02.srt', 'e03.srt', 'e04.srt', 'credits.srt', 'bom.srt'].map((name) =>
+                path.join(tempDir, name),
+            );
+
+            await fs.promises.writeFile(files[0], episode('مرحبا بكم في الحلقة الجديدة من المسلسل'));
+            await fs.promises.writeFile(files[1], episode('مرحبا بكم في الحلقة الثانية من المسلسل'));
+            await fs.promises.writeFile(files[2], episode('مرحبا بكم في الحلقة الثالثة من المسلسل'));
+            // Too short for chardet, which guesses Shift_JIS
+            await fs.promises.writeFile(
+                files[3],
+                iconv.encode('1\n00:00:01,000 --> 00:00:02,000\nمرحبا\n', 'windows1256'),
+            );
+            await fs.promises.writeFile(files[4], '1\n00:00:01,000 --> 00:00:02,000\nThe End\n');
+            await fs.promises.writeFile(files[5], '\ufeff1\n00:00:01,000 --> 00:00:02,000\nمرحبا\n', 'utf8');
+
+            const consensus = await EncodingDetectionService.detectConsensus(files);
+
+            expect(consensus).toMatchObject({ encoding: 'windows-1256', voters: 3, agreeing: 3, outliers: [files[3]] });
+            expect(consensus.detections[files[3]].confidence).toBeLessThan(0.5);
+            expect(Object.keys(consensus.detections)).toHaveLength(6);
+        });
+
+        it('should not pick an encoding without a majority', async () => {
+            const arabic = path.join(tempDir, 'arabic.srt');
+            const unicode = path.join(tempDir, 'unicode.srt');
+            const short = path.join(tempDir, 'short.srt');
+
+            await fs.promises.writeFile(arabic, episode('مرحبا بكم في الحلقة الجديدة من المسلسل'));
+            await fs.promises.writeFile(unicode, iconv.decode(episode('مرحبا بكم في الحلقة'), 'windows1256'), 'utf8');
+            await fs.promises.writeFile(short, iconv.encode('مرحبا\n', 'windows1256'));
+
+            const consensus = await EncodingDetectionService.detectConsensus([arabic, unicode, short]);
+
+            expect(consensus).toMatchObject({ encoding: null, voters: 2, agreeing: 0, outliers: [] });
+        });
+    });
 });
@@ -0,0 +1,121 @@
+import { describe, it, expect } from '@jest/globals';
+
+import AssFormat from '../src/formats/AssFormat';
+import FormatConverter from '../src/formats/FormatConverter';
+import SrtFormat from '../src/formats/SrtFormat';
+import TxtFormat from '../src/formats/TxtFormat';
+import VttFormat from '../src/formats/VttFormat';
+
+const ASS_SCRIPT = `[Script Info]
+ScriptType: v4.00+
+
+[V4+ Styles]
+Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding
+Style: Sign,Arial,48,&H00FFFFFF,&H000000FF,&H00000000,&H00000000,0,0,0,0,100,100,0,0,1,2,2,8,10,10,10,1
+
+[Events]
+Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text
+Dialogue: 0,0:00:01.00,0:00:02.00,Default,Ahmed,0,0,0,,{\\i1}Hello{\\i0} there\\Nfriend
+Dialogue: 0,0:00:03.00,0:00:04.00,Sign,,0,0,0,,{\\an8\\pos(10,10)}Exit
+`;
+
+describe('FormatConverter', () => {
+    it('should leave documents alone when the format does not change', () => {
+        const document = new AssFormat().parse(ASS_SCRIPT);
+
+        expect(FormatConverter.convert(document, 'ass')).toEqual({ document, warnings: [] });
+        expect(FormatConverter.convert(document, 'ssa').warnings).toEqual([]);
+    });
+
+    it('should rewrite the header, styles and event layout when turning ASS into SSA', () => {
+        const script = ASS_SCRIPT.replace(
+            'Dialogue: 0,0:00:03.00',
+            'Comment: 0,0:00:02.00,0:00:03.00,Default,,0,0,0,,Note\nDialogue: 1,0:00:03.00',
+        ).replace(',0,0,0,0,100,100,0,0,1,2,2,8,', ',0,0,1,0,100,100,0,0,1,2,2,8,');
+        const { document, warnings } = FormatConverter.convert(new AssFormat().parse(script), 'ssa');
+
+        expect(new AssFormat('ssa').serialize(document)).toBe(`[Script Info]
+ScriptType: v4.00
+
+[V4 Styles]
+Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, TertiaryColour, BackColour, Bold, Italic, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, AlphaLevel, Encoding
+Style: Sign,Arial,48,&H00FFFFFF,&H000000FF,&H00000000,&H00000000,0,0,1,2,2,6,10,10,10,0,1
+
+[Events]
+Format: Marked, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text
+Dialogue: Marked=0,0:00:01.00,0:00:02.00,Default,Ahmed,0,0,0,,{\\i1}Hello{\\i0} there\\Nfriend
+Comment: Marked=0,0:00:02.00,0:00:03.00,Default,,0,0,0,,Note
+Dialogue: Marked=0,0:00:03.00,0:00:04.00,Sign,,0,0,0,,{\\an8\\pos(10,10)}Exit
+`);
+        expect(warnings).toEqual([
+            'SSA styles have no Underline; those settings were dropped',
+            'Style and layout fields of 1 cue(s) were dropped',
+        ]);
+    });
+
+    it('should turn SSA into ASS', () => {
+        const ssa = new AssFormat('ssa');
+        const { document } = FormatConverter.convert(
+            ssa.parse(ssa.serialize(FormatConverter.convert(new AssFormat().parse(ASS_SCRIPT), 'ssa').document)),
+            'ass',
+        );
+
+        expect(new AssFormat().serialize(document)).toBe(ASS_SCRIPT);
+    });
+
+    it('should translate ASS emphasis to HTML tags and report what SRT cannot keep', () => {
+        const { document, warnings } = FormatConverter.convert(new AssFormat().parse(ASS_SCRIPT), 'srt');
+
+        expect(new SrtFormat().serialize(document)).toBe(
+            '1\n00:00:01,000 --> 00:00:02,000\n<i>Hello</i> there\nfriend\n\n2\n00:00:03,000 --> 00:00:04,000\nExit\n',
+        );
+        expect(warnings).toEqual([
+            'SRT has no place for these sections, which were dropped: Script Info, V4+ Styles',
+            'Speaker names of 1 cue(s) were dropped',
+            'Formatting SRT cannot show was removed from 1 cue(s)',
+            'Style and layout fields of 1 cue(s) were dropped',
+        ]);
+    });
+
+    it('should turn the ASS speaker into a WebVTT voice span', () => {
+        const { document } = FormatConverter.convert(new AssFormat().parse(ASS_SCRIPT), 'vtt');
+
+        expect(document.cues[0].lines).toEqual(['<v Ahmed><i>Hello</i> there', 'friend']);
+    });
+
+    it('should translate HTML emphasis to ASS overrides', () => {
+        const srt = new SrtFormat().parse(
+            '1\n00:00:01,000 --> 00:00:02,000\n<b>Bold</b> <font color="red">red</font>\n',
+        );
+
+        const { document, warnings } = FormatConverter.convert(srt, 'ass');
+
+        expect(document.cues[0].lines).toEqual(['{\\b1}Bold{\\b0} red']);
+        expect(warnings).toEqual(['Formatting ASS cannot show was removed from 1 cue(s)']);
+    });
+
+    it('should drop WebVTT positions, voices and identifiers when writing SRT', () => {
+        const vtt = new VttFormat().parse(
+            'WEBVTT\n\nNOTE kept only in VTT\n\nintro\n00:00:01.000 --> 00:00:02.000 align:start\n<v Bob>Hi <c.loud>there</c></v>\n',
+        );
+
+        const { document, warnings } = FormatConverter.convert(vtt, 'srt');
+
+        expect(document.cues[0].lines).toEqual(['Hi there']);
+        expect(document.cues[0].settings).toBeUndefined();
+        expect(new SrtFormat().serialize(document)).toBe('1\n00:00:01,000 --> 00:00:02,000\nHi there\n');
+        expect(warnings).toEqual([
+            'SRT has no place for these sections, which were dropped: NOTE',
+            'Formatting SRT cannot show was removed from 1 cue(s)',
+            'Speaker names of 1 cue(s) were dropped',
+            'Positioning of 1 cue(s) was dropped',
+            'Identifiers of 1 cue(s) were dropped',
+        ]);
+    });
+
+    it('should write plain text paragraphs without any markup', () => {
+        const { document } = FormatConverter.convert(new AssFormat().parse(ASS_SCRIPT), 'txt');
+
+        expect(new TxtFormat().serialize(document)).toBe('Hello there\nfriend\n\nExit\n');
+    });
+});
@@ -0,0 +1,103 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+import { describe, it, expect } from '@jest/globals';
+
+import FormatRegistry from '../src/formats/FormatRegistry';
+import FormatSniffer from '../src/formats/FormatSniffer';
+
+describe('FormatSniffer', () => {
+    describe('sniff', () => {
+        it('should recognise SRT timestamps', () => {
+            expect(FormatSniffer.sniff('1\n00:00:01,000 --> 00:00:02,000\nHello\n')).toEqual({
+                format: 'srt',
+                confidence: 1,
+            });
+        });
+
+        it('should be less sure of SRT with WebVTT-style timestamps', () => {
+            expect(FormatSniffer.sniff('00:00:01.000 --> 00:00:02.000\nHello\n')).toEqual({
+                format: 'srt',
+                confidence: 0.7,
+            });
+        });
+
+        it('should recognise WebVTT by its header', () => {
+            expect(FormatSniffer.sniff('\uFEFFWEBVTT\n\n1\n00:00:01.000 --> 00:00:02.000\nHello\n')).toEqual({
+                format: 'vtt',
+                confidence: 1,
+            });
+        });
+
+        it('should tell ASS from SSA', () => {
+            expect(FormatSniffer.sniff('[Script Info]\nScriptType: v4.00+\n\n[V4+ Styles]\n')?.format).toBe('ass');
+            expect(FormatSniffer.sniff('[Script Info]\nScriptType: v4.00\n\n[V4 Styles]\n')?.format).toBe('ssa');
+        });
+
+        it('should recognise MicroDVD frame cues', () => {
+            expect(FormatSniffer.sniff('{1}{1}25\n{25}{50}Hello\n')).toEqual({ format: 'sub', confidence: 0.95 });
+        });
+
+        it('should recognise SubViewer', () => {
+            expect(FormatSniffer.sniff('[INFORMATION]\n[TITLE]Movie\n')?.format).toBe('subviewer');
+            expect(FormatSniffer.sniff('00:00:01.00,00:00:02.00\nHello\n')?.format).toBe('subviewer');
+        });
+
+        it('should recognise SAMI and TTML markup', () => {
+            expect(FormatSniffer.sniff('<SAMI>\n<BODY>\n<SYNC Start=0><P>Hi\n')).toEqual({
+                format: 'smi',
+                confidence: 1,
+            });
+            expect(FormatSniffer.sniff('<?xml version="1.0"?>\n<tt xmlns="http://www.w3.org/ns/ttml">')).toEqual({
+                format: 'ttml',
+                confidence: 1,
+            });
+        });
+
+        it('should return null for content that is not subtitles', () => {
+            expect(FormatSniffer.sniff('Shopping list:\n- milk\n- eggs\n')).toBeNull();
+        });
+    });
+
+    describe('sniffFile', () => {
+        it('should read UTF-16 files', async () => {
+            const tempDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'subzilla-sniffer-'));
+            const filePath = path.join(tempDir, 'captions.dat');
+
+            try {
+                await fs.promises.writeFile(
+                    filePath,
+                    Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from('WEBVTT\n\n', 'utf16le')]),
+                );
+
+                expect(await FormatSniffer.sniffFile(filePath)).toEqual({ format: 'vtt', confidence: 1 });
+            } finally {
+                await fs.promises.rm(tempDir, { recursive: true, force: true });
+            }
+        });
+    });
+
+    describe('FormatRegistry.resolveInputFormat', () => {
+        it('should let confident content override the extension', () => {
+            expect(FormatRegistry.resolveInputFormat('movie.srt', 'auto', 'WEBVTT\n')).toBe('vtt');
+            expect(FormatRegistry.resolveInputFormat('movie.txt', 'auto', '{1}{25}Hello\n')).toBe('sub');
+        });
+
+        it('should keep the extension when content is unclear', () => {
+            expect(FormatRegistry.resolveInputFormat('movie.vtt', 'auto', '00:00:01.000 --> 00:00:02.000\nHi\n')).toBe(
+                'vtt',
+            );
+        });
+
+        it('should keep the ASS or SSA variant the extension names', () => {
+            expect(FormatRegistry.resolveInputFormat('movie.ssa', 'auto', '[Script Info]\nScriptType: v4.00+\n')).toBe(
+                'ssa',
+            );
+        });
+
+        it('should not sniff when the input format is given', () => {
+            expect(FormatRegistry.resolveInputFormat('movie.srt', 'srt', 'WEBVTT\n')).toBe('srt');
+        });
+    });
+});
@@ -120,6 +120,15 @@ describe('FormattingStripper', () => {
             expect(result).toBe('Text with various types of brackets');
         });
 
+        it('should leave inline markup alone when removing brackets and punctuation', () => {
+            const content = '{\\an8}<font color="red">[Note]</font> <i>Hi!</i>';
+            const options: IStripOptions = { brackets: true, punctuation: true };
+
+            const result = stripper.stripFormatting(content, options);
+
+            expect(result).toBe('{\\an8}<font color="red">Note</font> <i>Hi</i>');
+        });
+
         it('should remove bidi control characters when bidiControl option is enabled', () => {
             const content = 'Text\u200Ewith\u200Fbidi\u202Acontrols';
             const options: IStripOptions = { bidiControl: true };
@@ -180,4 +189,52 @@ describe('FormattingStripper', () => {
             expect(result).toBe('{\\c}'); // Only unmatched codes remain
         });
     });
+
+    describe('hearing-impaired annotations', () => {
+        it('should remove every kind of annotation', () => {
+            const content = '[DOOR SLAMS] JOHN: Who is there?\n(laughs) ♪ la la la ♪ Nobody.';
+
+            const result = stripper.stripFormatting(content, { hearingImpaired: true });
+
+            expect(result).toBe('Who is there?\nNobody.');
+        });
+
+        it('should remove only the chosen kinds', () => {
+            const content = '[SIGHS] (quietly) JOHN: Fine.';
+
+            const result = stripper.stripFormatting(content, { hearingImpaired: { brackets: true } });
+
+            expect(result).toBe('(quietly) JOHN: Fine.');
+        });
+
+        it('should remove annotations spanning lines and lyrics without a closing note', () => {
+            const content = '[THUNDER\nRUMBLING]\n♪ Singing in the rain';
+
+            const result = stripper.stripFormatting(content, { hearingImpaired: true });
+
+            expect(result.trim()).toBe('');
+        });
+
+        it('should keep speaker dashes and drop the dash of a lone survivor', () => {
+            const both = stripper.stripFormatting('- MARY: Hi.\n- JOHN: Hello.', { hearingImpaired: true });
+            const one = stripper.stripFormatting('- [COUGHS]\n- Hello.', { hearingImpaired: true });
+
+            expect(both).toBe('- Hi.\n- Hello.');
+            expect(one).toBe('Hello.');
+        });
+
+        it('should drop lines left with only markup', () => {
+            const content = '<i>(whispering)</i>\nCome here.';
+
+            const result = stripper.stripFormatting(content, { hearingImpaired: { parentheses: true } });
+
+            expect(result).toBe('Come here.');
+        });
+
+        it('should leave mixed-case text with colons alone', () => {
+            const content = 'Note: the time is 10:30.';
+
+            expect(stripper.stripFormatting(content, { hearingImpaired: true })).toBe(content);
+        });
+    });
 });
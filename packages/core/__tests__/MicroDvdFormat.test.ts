@@ -0,0 +1,93 @@
+import { describe, it, expect } from '@jest/globals';
+
+import FormatRegistry from '../src/formats/FormatRegistry';
+import MicroDvdFormat from '../src/formats/MicroDvdFormat';
+import SrtFormat from '../src/formats/SrtFormat';
+
+describe('MicroDvdFormat', () => {
+    describe('parse', () => {
+        it('should read the frame rate from the header line', () => {
+            const document = new MicroDvdFormat().parse('{1}{1}25\n{25}{50}Hello|World\n');
+
+            expect(document.frameRate).toBe(25);
+            expect(document.warnings).toEqual([]);
+            expect(document.cues).toEqual([{ index: 1, start: 1000, end: 2000, lines: ['Hello', 'World'], tags: [] }]);
+        });
+
+        it('should let an explicit frame rate override the header', () => {
+            const document = new MicroDvdFormat(50).parse('{1}{1}25\n{50}{100}Hello\n');
+
+            expect(document.frameRate).toBe(50);
+            expect(document.cues[0].start).toBe(1000);
+            expect(document.cues[0].end).toBe(2000);
+        });
+
+        it('should assume 23.976 fps and warn when no rate is known', () => {
+            const document = new MicroDvdFormat().parse('{0}{24}Hello\n');
+
+            expect(document.frameRate).toBe(MicroDvdFormat.DEFAULT_FPS);
+            expect(document.cues[0].end).toBe(1001);
+            expect(document.warnings).toEqual(['No frame rate given or found in the file; assuming 23.976 fps']);
+        });
+
+        it('should turn style and colour codes into inline tags', () => {
+            const document = new MicroDvdFormat(25).parse(
+                '{0}{25}{y:i}Italic line|{y:b,u}{c:$0000FF}Bold red\n{25}{50}{Y:i}Both|lines\n',
+            );
+
+            expect(document.cues[0].lines).toEqual([
+                '<i>Italic line</i>',
+                '<b><u><font color="#ff0000">Bold red</font></u></b>',
+            ]);
+            expect(document.cues[0].tags).toEqual(['{y:i}', '{y:b,u}', '{c:$0000FF}']);
+            expect(document.cues[1].lines).toEqual(['<i>Both</i>', '<i>lines</i>']);
+        });
+
+        it('should keep other control codes as fields', () => {
+            const document = new MicroDvdFormat(25).parse('{0}{25}{f:Arial}{s:20}Text\n');
+
+            expect(document.cues[0].lines).toEqual(['Text']);
+            expect(document.cues[0].fields).toEqual({ f: 'Arial', s: '20' });
+        });
+
+        it('should end open-ended cues where the next one starts', () => {
+            const document = new MicroDvdFormat(25).parse('{0}{}First\n{50}{75}Second\n');
+
+            expect(document.cues[0].end).toBe(2000);
+        });
+
+        it('should skip and report lines that are not cues', () => {
+            const document = new MicroDvdFormat(25).parse('junk\n{0}{25}Text\n');
+
+            expect(document.cues).toHaveLength(1);
+            expect(document.warnings).toEqual(['Line 1: not a MicroDVD cue, skipped']);
+        });
+    });
+
+    describe('serialize', () => {
+        it('should write frames with a header at the frame rate the file was read at', () => {
+            const content = '{1}{1}25\n{25}{50}{y:i}Hello|World\n{50}{75}{Y:b}Both|lines\n{75}{100}{f:Arial}Plain\n';
+            const microDvd = new MicroDvdFormat();
+
+            expect(microDvd.serialize(microDvd.parse(content))).toBe(content);
+        });
+
+        it('should convert SRT documents at the requested frame rate', () => {
+            const document = new SrtFormat().parse(
+                '1\n00:00:01,000 --> 00:00:02,000\n<i>Hello</i> <b>there</b>\nfriend\n',
+            );
+
+            expect(new MicroDvdFormat(25).serialize(document)).toBe('{1}{1}25\n{25}{50}Hello there|friend\n');
+        });
+
+        it('should reject invalid frame rates', () => {
+            expect(() => new MicroDvdFormat(0)).toThrow('Invalid frame rate: 0');
+            expect(() => new MicroDvdFormat(NaN)).toThrow('Invalid frame rate: NaN');
+        });
+    });
+
+    it('should be picked for .sub files', () => {
+        expect(FormatRegistry.resolveInputFormat('movie.sub')).toBe('sub');
+        expect(FormatRegistry.create('sub', { fps: 25 })).toBeInstanceOf(MicroDvdFormat);
+    });
+});
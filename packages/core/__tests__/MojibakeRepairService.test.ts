@@ -0,0 +1,72 @@
+import { describe, it, expect } from '@jest/globals';
+import iconv from 'iconv-lite';
+
+import MojibakeRepairService from '../src/MojibakeRepairService';
+
+/**
+ * What another tool makes of UTF-8 text by decoding it with `codepage`
+ */
+function garble(text: string, codepage: string): string {
+    return iconv.decode(Buffer.from(text, 'utf8'), codepage);
+}
+
+describe('MojibakeRepairService', () => {
+    const arabic = 'السلام عليكم، كم الساعة؟';
+
+    describe('repair', () => {
+        it('should undo UTF-8 read as windows-1252', () => {
+            const garbled = garble(arabic, 'windows-1252');
+
+            expect(garbled.startsWith('Ø§Ù„')).toBe(true);
+            expect(MojibakeRepairService.repair(garbled)).toEqual({
+                text: arabic,
+                rounds: 1,
+                repairs: 4,
+                codepages: ['windows-1252'],
+            });
+        });
+
+        it('should undo UTF-8 read as windows-1256 or windows-1251', () => {
+            expect(MojibakeRepairService.repair(garble(arabic, 'windows-1256')).text).toBe(arabic);
+            expect(MojibakeRepairService.repair(garble('Привет, как дела?', 'windows-1251')).text).toBe(
+                'Привет, как дела?',
+            );
+        });
+
+        it('should undo text garbled more than once, round by round', () => {
+            const twice = garble(garble('Café crème', 'windows-1252'), 'windows-1252');
+
+            expect(twice).toBe('CafÃƒÂ© crÃƒÂ¨me');
+            expect(MojibakeRepairService.repair(twice)).toMatchObject({
+                text: 'Café crème',
+                rounds: 2,
+                codepages: ['windows-1252', 'windows-1252'],
+            });
+        });
+
+        it('should map bytes windows-1252 leaves undefined back from C1 controls', () => {
+            // "ف" is D9 81, and 0x81 has no windows-1252 character
+            expect(MojibakeRepairService.repair('Ù\u0081ÙŠÙ„Ù…').text).toBe('فيلم');
+        });
+
+        it('should leave correct text alone', () => {
+            ['Café crème brûlée, São Paulo', arabic, 'Ні, я не знаю', '¿Qué? ¡Hola! Größe', 'Plain ASCII'].forEach(
+                (text) => {
+                    expect(MojibakeRepairService.repair(text)).toEqual({ text, rounds: 0, repairs: 0, codepages: [] });
+                },
+            );
+        });
+
+        it('should leave text alone when only a few runs happen to decode', () => {
+            // "Ні" is valid UTF-8 when read back as windows-1251, but the rest of the text is not
+            const text = 'Ні. Я не знаю, де місто.';
+
+            expect(MojibakeRepairService.repair(text).rounds).toBe(0);
+        });
+    });
+
+    it('should detect double-encoded text', () => {
+        expect(MojibakeRepairService.detect(garble(arabic, 'windows-1252'))).toBe(true);
+        expect(MojibakeRepairService.detect(arabic)).toBe(false);
+    });
+});
@@ -0,0 +1,138 @@
+import { describe, it, expect } from '@jest/globals';
+
+import RtlTextService from '../src/RtlTextService';
+
+describe('RtlTextService', () => {
+    describe('isRtl', () => {
+        it('should go by the first letter', () => {
+            expect(RtlTextService.isRtl('.مرحبا')).toBe(true);
+            expect(RtlTextService.isRtl('?שלום')).toBe(true);
+            expect(RtlTextService.isRtl('OK, مرحبا')).toBe(false);
+        });
+
+        it('should look past markup', () => {
+            expect(RtlTextService.isRtl('<font color="red">مرحبا</font>')).toBe(true);
+            expect(RtlTextService.isRtl('{\\an8}مرحبا')).toBe(true);
+        });
+
+        it('should not count lines without letters', () => {
+            expect(RtlTextService.isRtl('123 ...')).toBe(false);
+        });
+    });
+
+    describe('scoreVisualOrder', () => {
+        it('should tell Hebrew order from final forms', () => {
+            expect(RtlTextService.scoreVisualOrder('שלום, מה שלומך היום?')).toBe(-1);
+            expect(RtlTextService.scoreVisualOrder('?םויה ךמולש המ ,םולש')).toBe(1);
+        });
+
+        it('should tell Arabic order from letters that only end words', () => {
+            expect(RtlTextService.scoreVisualOrder('ذهبت إلى المدرسة')).toBe(-1);
+            expect(RtlTextService.scoreVisualOrder('ةسردملا ىلإ تبهذ')).toBe(1);
+        });
+
+        it('should tell Arabic order from the shapes of presentation forms', () => {
+            // "مرحبا بكم" as initial, medial and final glyphs
+            const shaped = '\uFEE3\uFEAE\uFEA3\uFE92\uFE8E \uFE91\uFEDC\uFEE2';
+
+            expect(RtlTextService.scoreVisualOrder(shaped)).toBe(-1);
+            expect(RtlTextService.scoreVisualOrder(Array.from(shaped).reverse().join(''))).toBe(1);
+        });
+
+        it('should return 0 when nothing tells', () => {
+            expect(RtlTextService.scoreVisualOrder('לא')).toBe(0);
+            expect(RtlTextService.scoreVisualOrder('Hello')).toBe(0);
+        });
+    });
+
+    describe('detectVisualOrder', () => {
+        it('should count reversed lines among those that tell', () => {
+            const text = 'Hello\r\nשלום עולם\r\n.םלוע םולש\r\n!ןאכ םולש';
+
+            expect(RtlTextService.detectVisualOrder(text)).toEqual({ lines: 3, reversed: 2, line: 3 });
+        });
+    });
+
+    describe('toLogicalOrder', () => {
+        it('should reverse the characters', () => {
+            expect(RtlTextService.toLogicalOrder('?םויה ךמולש המ ,םולש')).toBe('שלום, מה שלומך היום?');
+        });
+
+        it('should keep numbers and left-to-right words in order and swap brackets', () => {
+            expect(RtlTextService.toLogicalOrder('.DVD player-ב 12:30-ב (1,000) םע')).toBe(
+                'עם (1,000) ב-12:30 ב-DVD player.',
+            );
+        });
+
+        it('should keep marks on their letters', () => {
+            expect(RtlTextService.toLogicalOrder('בָּרֲעֶ')).toBe('עֶרֲבָּ');
+        });
+
+        it('should keep markup at the ends of the line', () => {
+            expect(RtlTextService.toLogicalOrder('{\\an8}<i>.םולש</i>')).toBe('{\\an8}<i>שלום.</i>');
+        });
+
+        it('should leave lines with markup inside alone', () => {
+            expect(RtlTextService.toLogicalOrder('<b>םולש</b> המ')).toBe('<b>םולש</b> המ');
+        });
+    });
+
+    describe('fixVisualOrder', () => {
+        it('should only reverse lines that score as visual order', () => {
+            expect(RtlTextService.fixVisualOrder('.םולש\nשלום עולם\nלא')).toBe('שלום.\nשלום עולם\nלא');
+        });
+    });
+
+    describe('fix', () => {
+        const fixPunctuation = { fixPunctuation: true };
+
+        it('should move leading punctuation to the end', () => {
+            expect(RtlTextService.fix('.مرحبا', fixPunctuation)).toBe('مرحبا.');
+            expect(RtlTextService.fix('?שלום', fixPunctuation)).toBe('שלום?');
+            expect(RtlTextService.fix('...خداحافظ', fixPunctuation)).toBe('خداحافظ...');
+        });
+
+        it('should reverse a run typed in display order', () => {
+            expect(RtlTextService.fix('?! מה', fixPunctuation)).toBe('מה!?');
+        });
+
+        it('should move a trailing dialogue dash to the start', () => {
+            expect(RtlTextService.fix('?שלום -\n.مرحبا -', fixPunctuation)).toBe('- שלום?\n- مرحبا.');
+        });
+
+        it('should keep markup at the ends of the line', () => {
+            expect(RtlTextService.fix('<i>.مرحبا</i>', fixPunctuation)).toBe('<i>مرحبا.</i>');
+            expect(RtlTextService.fix('{\\an8}?שלום', fixPunctuation)).toBe('{\\an8}שלום?');
+        });
+
+        it('should leave lines that are already right alone', () => {
+            const text = '- مرحبا.\n...ثم ذهب.\nשלום?';
+
+            expect(RtlTextService.fix(text, fixPunctuation)).toBe(text);
+        });
+
+        it('should leave left-to-right lines alone', () => {
+            const text = '...and then -\n.مرحبا';
+
+            expect(RtlTextService.fix(text, fixPunctuation)).toBe('...and then -\nمرحبا.');
+        });
+
+        it('should add a right-to-left mark', () => {
+            expect(RtlTextService.fix('مرحبا.\nHello.', { markers: 'rlm' })).toBe('\u200Fمرحبا.\nHello.');
+        });
+
+        it('should wrap lines in an embedding', () => {
+            expect(RtlTextService.fix('<i>.שלום</i>', { fixPunctuation: true, markers: 'rle' })).toBe(
+                '\u202B<i>שלום.</i>\u202C',
+            );
+        });
+
+        it('should not add markers twice', () => {
+            expect(RtlTextService.fix('\u200Fمرحبا', { markers: 'rlm' })).toBe('\u200Fمرحبا');
+        });
+
+        it('should change nothing when no option is on', () => {
+            expect(RtlTextService.fix('.مرحبا', {})).toBe('.مرحبا');
+        });
+    });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect } from '@jest/globals';
+
+import FormatRegistry from '../src/formats/FormatRegistry';
+import SamiFormat from '../src/formats/SamiFormat';
+
+const SAMI = `<SAMI>
+<HEAD>
+<STYLE TYPE="text/css">
+<!--
+.KRCC { Name: Korean; lang: ko-KR; }
+.ENCC { Name: English; lang: en-US; }
+-->
+</STYLE>
+</HEAD>
+<BODY>
+<SYNC Start=1000><P Class=KRCC>안녕하세요
+<P Class=ENCC><i>Hello</i><br>there
+<SYNC Start=2500><P Class=KRCC>&nbsp;
+<P Class=ENCC>&nbsp;
+<SYNC Start=3000><P Class=KRCC>잘 가요
+<P Class=ENCC>Tom &amp; Jerry&#33;
+</BODY>
+</SAMI>
+`;
+
+describe('SamiFormat', () => {
+    it('should read the first track and report the others', () => {
+        const document = new SamiFormat().parse(SAMI);
+
+        expect(document.cues).toEqual([
+            { index: 1, start: 1000, end: 2500, lines: ['안녕하세요'], tags: [] },
+            { index: 2, start: 3000, end: 7000, lines: ['잘 가요'], tags: [] },
+        ]);
+        expect(document.warnings).toEqual(['File has 2 language tracks (KRCC, ENCC); using KRCC']);
+    });
+
+    it('should pick the track by its declared language', () => {
+        const document = new SamiFormat('en').parse(SAMI);
+
+        expect(document.cues.map((cue) => cue.lines)).toEqual([['<i>Hello</i>', 'there'], ['Tom & Jerry!']]);
+        expect(document.cues[0].tags).toEqual(['<i>', '</i>']);
+        expect(document.warnings).toEqual([]);
+    });
+
+    it('should pick the track by its class name', () => {
+        const document = new SamiFormat('encc').parse(SAMI);
+
+        expect(document.cues[0].lines).toEqual(['<i>Hello</i>', 'there']);
+    });
+
+    it('should fall back to the first track when no language matches', () => {
+        const document = new SamiFormat('fr').parse(SAMI);
+
+        expect(document.cues[0].lines).toEqual(['안녕하세요']);
+        expect(document.warnings).toEqual(['No SAMI track matches "fr"; using KRCC']);
+    });
+
+    it('should read paragraphs without a class', () => {
+        const document = new SamiFormat().parse(
+            '<SAMI><BODY><SYNC Start=0>Plain <font color="red">text</font></BODY></SAMI>',
+        );
+
+        expect(document.cues).toEqual([
+            {
+                index: 1,
+                start: 0,
+                end: 4000,
+                lines: ['Plain <font color="red">text</font>'],
+                tags: ['<font color="red">', '</font>'],
+            },
+        ]);
+    });
+
+    it('should warn when there are no SYNC blocks', () => {
+        expect(new SamiFormat().parse('<SAMI></SAMI>').warnings).toEqual(['No <SYNC> blocks found']);
+    });
+
+    it('should not write SAMI', () => {
+        expect(() => new SamiFormat().serialize()).toThrow('Writing SAMI files is not supported');
+        expect(FormatRegistry.canWrite('smi')).toBe(false);
+    });
+
+    it('should be picked for .smi files', () => {
+        expect(FormatRegistry.resolveInputFormat('movie.smi')).toBe('smi');
+        expect(FormatRegistry.create('smi', { language: 'en' })).toBeInstanceOf(SamiFormat);
+    });
+});
@@ -0,0 +1,198 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+
+import SrtFormat from '../src/formats/SrtFormat';
+import Timecode from '../src/formats/Timecode';
+
+describe('SrtFormat', () => {
+    let srt: SrtFormat;
+
+    beforeEach(() => {
+        srt = new SrtFormat();
+    });
+
+    describe('parse', () => {
+        it('should parse well-formed cues into the document model', () => {
+            const content = `1
+00:00:01,000 --> 00:00:03,500
+Hello <i>World</i>
+
+2
+00:00:04,000 --> 00:00:06,000
+Line one
+Line two
+`;
+
+            const document = srt.parse(content);
+
+            expect(document.format).toBe('srt');
+            expect(document.warnings).toEqual([]);
+            expect(document.cues).toHaveLength(2);
+            expect(document.cues[0]).toEqual({
+                index: 1,
+                start: 1000,
+                end: 3500,
+                lines: ['Hello <i>World</i>'],
+                tags: ['<i>', '</i>'],
+            });
+            expect(document.cues[1].lines).toEqual(['Line one', 'Line two']);
+        });
+
+        it('should tolerate CRLF, a BOM and dot fractions', () => {
+            const content = '\uFEFF1\r\n0:00:01.5 --> 00:00:02.250\r\nText\r\n';
+
+            const document = srt.parse(content);
+
+            expect(document.cues).toHaveLength(1);
+            expect(document.cues[0].start).toBe(1500);
+            expect(document.cues[0].end).toBe(2250);
+        });
+
+        it('should split cues that are missing the blank line between them', () => {
+            const content = `1
+00:00:01,000 --> 00:00:02,000
+First
+2
+00:00:03,000 --> 00:00:04,000
+Second`;
+
+            const document = srt.parse(content);
+
+            expect(document.cues.map((cue) => cue.lines)).toEqual([['First'], ['Second']]);
+            expect(document.cues.map((cue) => cue.index)).toEqual([1, 2]);
+        });
+
+        it('should number cues that have no sequence number', () => {
+            const content = `00:00:01,000 --> 00:00:02,000
+First
+
+00:00:03,000-->00:00:04,000
+Second`;
+
+            const document = srt.parse(content);
+
+            expect(document.cues.map((cue) => cue.index)).toEqual([1, 2]);
+        });
+
+        it('should drop blank lines inside cue text', () => {
+            const content = `1
+00:00:01,000 --> 00:00:02,000
+First line
+
+
+Second line`;
+
+            const document = srt.parse(content);
+
+            expect(document.cues).toHaveLength(1);
+            expect(document.cues[0].lines).toEqual(['First line', 'Second line']);
+        });
+
+        it('should keep numeric text lines that are not followed by a timing line', () => {
+            const content = `1
+00:00:01,000 --> 00:00:02,000
+42
+
+2
+00:00:03,000 --> 00:00:04,000
+Next`;
+
+            const document = srt.parse(content);
+
+            expect(document.cues[0].lines).toEqual(['42']);
+            expect(document.cues[1].index).toBe(2);
+
+            const spaced = srt.parse(`1\n00:00:01,000 --> 00:00:02,000\nThe answer\n42\n`);
+
+            expect(spaced.cues[0].lines).toEqual(['The answer', '42']);
+        });
+
+        it('should keep a numeric last line when the next cue has no sequence number', () => {
+            const content = `1
+00:00:01,000 --> 00:00:02,000
+The answer is
+42
+00:00:03,000 --> 00:00:04,000
+Next`;
+
+            const document = srt.parse(content);
+
+            expect(document.cues[0].lines).toEqual(['The answer is', '42']);
+            expect(document.cues[1].index).toBe(2);
+        });
+
+        it('should keep SRT coordinates as cue settings', () => {
+            const content = `1
+00:00:01,000 --> 00:00:02,000 X1:100 X2:600 Y1:20 Y2:50
+Positioned`;
+
+            const document = srt.parse(content);
+
+            expect(document.cues[0].settings).toEqual({ X1: '100', X2: '600', Y1: '20', Y2: '50' });
+        });
+
+        it('should warn about junk before the first cue and inverted timings', () => {
+            const content = `Subtitles downloaded from somewhere
+
+1
+00:00:05,000 --> 00:00:01,000
+Backwards`;
+
+            const document = srt.parse(content);
+
+            expect(document.cues).toHaveLength(1);
+            expect(document.warnings).toHaveLength(2);
+        });
+
+        it('should return no cues for content that is not SRT', () => {
+            expect(srt.parse('').cues).toEqual([]);
+            expect(srt.parse('[Script Info]\nTitle: Test').cues).toEqual([]);
+        });
+    });
+
+    describe('serialize', () => {
+        it('should round-trip a parsed document', () => {
+            const content = `1
+00:00:01,000 --> 00:00:03,500
+Hello <i>World</i>
+
+2
+00:01:04,000 --> 01:00:06,007 X1:100 X2:600
+Line one
+Line two
+`;
+
+            expect(srt.serialize(srt.parse(content))).toBe(content);
+        });
+
+        it('should normalize sloppy input to canonical SRT', () => {
+            const content = '1\r\n0:0:1.5->0:0:2\r\n  Text  \r\n\r\n\r\n\r\n2\r\n00:00:03,000 --> 00:00:04,000\r\nMore';
+
+            expect(srt.serialize(srt.parse(content))).toBe(
+                '1\n00:00:01,500 --> 00:00:02,000\nText\n\n2\n00:00:03,000 --> 00:00:04,000\nMore\n',
+            );
+        });
+
+        it('should serialize an empty document to an empty string', () => {
+            expect(srt.serialize({ format: 'srt', cues: [], warnings: [] })).toBe('');
+        });
+    });
+});
+
+describe('Timecode', () => {
+    it('should parse clock timestamps with and without hours', () => {
+        expect(Timecode.parseClock('01:02:03,456')).toBe(3723456);
+        expect(Timecode.parseClock('02:03.4')).toBe(123400);
+        expect(Timecode.parseClock('00:00:05')).toBe(5000);
+    });
+
+    it('should reject invalid timestamps', () => {
+        expect(Timecode.parseClock('00:61:00,000')).toBeNull();
+        expect(Timecode.parseClock('not a time')).toBeNull();
+    });
+
+    it('should format milliseconds with configurable precision', () => {
+        expect(Timecode.formatClock(3723456)).toBe('01:02:03,456');
+        expect(Timecode.formatClock(3723456, '.', 2, 1)).toBe('1:02:03.45');
+        expect(Timecode.formatClock(-5)).toBe('00:00:00,000');
+    });
+});
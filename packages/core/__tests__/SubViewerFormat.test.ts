@@ -0,0 +1,51 @@
+import { describe, it, expect } from '@jest/globals';
+
+import FormatRegistry from '../src/formats/FormatRegistry';
+import SubViewerFormat from '../src/formats/SubViewerFormat';
+
+const SUBVIEWER = `[INFORMATION]
+[TITLE]Movie
+[AUTHOR]Someone
+[END INFORMATION]
+[SUBTITLE]
+[COLF]&HFFFFFF,[STYLE]bd,[SIZE]18,[FONT]Arial
+
+00:00:01.00,00:00:02.50
+Hello[br]World
+
+00:00:03.00,00:00:04.00
+Bye
+`;
+
+describe('SubViewerFormat', () => {
+    it('should read cues and keep the header blocks as sections', () => {
+        const document = new SubViewerFormat().parse(SUBVIEWER);
+
+        expect(document.cues).toEqual([
+            { index: 1, start: 1000, end: 2500, lines: ['Hello', 'World'], tags: [] },
+            { index: 2, start: 3000, end: 4000, lines: ['Bye'], tags: [] },
+        ]);
+        expect(document.sections).toEqual([
+            { name: 'INFORMATION', lines: ['[TITLE]Movie', '[AUTHOR]Someone'] },
+            { name: 'SUBTITLE', lines: ['[COLF]&HFFFFFF,[STYLE]bd,[SIZE]18,[FONT]Arial'] },
+        ]);
+        expect(document.warnings).toEqual([]);
+    });
+
+    it('should report text outside of any cue', () => {
+        const document = new SubViewerFormat().parse('stray\n\n00:00:01.00,00:00:02.00\nText\n');
+
+        expect(document.cues).toHaveLength(1);
+        expect(document.warnings).toEqual(['Line 1: skipped text outside of any cue']);
+    });
+
+    it('should be picked for .sub files that look like SubViewer', () => {
+        expect(FormatRegistry.resolveInputFormat('movie.sub', 'auto', SUBVIEWER)).toBe('subviewer');
+        expect(FormatRegistry.resolveInputFormat('movie.sub', 'auto', '{25}{50}Hello\n')).toBe('sub');
+        expect(FormatRegistry.canWrite('subviewer')).toBe(false);
+    });
+
+    it('should not write SubViewer', () => {
+        expect(() => new SubViewerFormat().serialize()).toThrow('Writing SubViewer files is not supported');
+    });
+});
@@ -0,0 +1,162 @@
+import { describe, it, expect } from '@jest/globals';
+
+import FormatConverter from '../src/formats/FormatConverter';
+import FormatRegistry from '../src/formats/FormatRegistry';
+import SrtFormat from '../src/formats/SrtFormat';
+import TtmlFormat from '../src/formats/TtmlFormat';
+
+const DFXP = `<?xml version="1.0" encoding="UTF-8"?>
+<tt xmlns="http://www.w3.org/ns/ttml" xmlns:tts="http://www.w3.org/ns/ttml#styling"
+    xmlns:ttp="http://www.w3.org/ns/ttml#parameter" ttp:tickRate="10000000" xml:lang="en">
+  <head>
+    <styling>
+      <style xml:id="base" tts:color="white" tts:fontFamily="Arial"/>
+      <style xml:id="emphasis" tts:fontStyle="italic"/>
+    </styling>
+  </head>
+  <body style="base">
+    <div>
+      <p begin="10000000t" end="25000000t">Hello<br/>
+        <span tts:fontWeight="bold">there</span> &amp; welcome</p>
+      <p begin="00:00:03.000" dur="1.5s" style="emphasis">Thinking</p>
+      <p begin="00:00:05.000" end="00:00:06.000"><span tts:color="#ff0000">Red</span> text</p>
+    </div>
+  </body>
+</tt>
+`;
+
+describe('TtmlFormat', () => {
+    describe('parse', () => {
+        it('should read paragraphs, line breaks and styling', () => {
+            const document = new TtmlFormat().parse(DFXP);
+
+            expect(document.warnings).toEqual([]);
+            expect(document.cues).toEqual([
+                { index: 1, start: 1000, end: 2500, lines: ['Hello', '<b>there</b> & welcome'], tags: ['<b>', '</b>'] },
+                { index: 2, start: 3000, end: 4500, lines: ['<i>Thinking</i>'], tags: ['<i>', '</i>'] },
+                {
+                    index: 3,
+                    start: 5000,
+                    end: 6000,
+                    lines: ['<font color="#ff0000">Red</font> text'],
+                    tags: ['<font color="#ff0000">', '</font>'],
+                },
+            ]);
+        });
+
+        it('should read frame-based times and add up nested begin times', () => {
+            const document = new TtmlFormat().parse(
+                '<tt xmlns="http://www.w3.org/ns/ttml" ttp:frameRate="30" ttp:frameRateMultiplier="1000 1001"><body>' +
+                    '<div begin="10s"><p begin="00:00:01:15" end="60f">Late</p></div></body></tt>',
+            );
+
+            expect(document.cues[0].start).toBe(11501);
+            expect(document.cues[0].end).toBe(12002);
+        });
+
+        it('should give paragraphs without times of their own the timing of their div', () => {
+            const document = new TtmlFormat().parse(
+                '<tt><body><div begin="2s" end="4s"><p>Inherited</p><p dur="1s">Shorter</p></div></body></tt>',
+            );
+
+            expect(document.warnings).toEqual([]);
+            expect(document.cues.map(({ start, end }) => [start, end])).toEqual([
+                [2000, 4000],
+                [2000, 3000],
+            ]);
+        });
+
+        it('should read escaped characters as plain text', () => {
+            const document = new TtmlFormat().parse(
+                '<tt><body><p begin="1s" end="2s">a &lt; b &amp;&amp; c</p></body></tt>',
+            );
+
+            expect(document.cues[0].lines).toEqual(['a < b && c']);
+            expect(document.cues[0].tags).toEqual([]);
+        });
+
+        it('should keep a right-to-left direction on the cue', () => {
+            const document = new TtmlFormat().parse(
+                '<tt><head><region xml:id="r1" tts:direction="rtl"/></head><body>' +
+                    '<p begin="1s" end="2s" region="r1">مرحبا</p><p begin="2s" end="3s">Hi</p></body></tt>',
+            );
+
+            expect(document.cues[0].fields).toEqual({ direction: 'rtl' });
+            expect(document.cues[1].fields).toBeUndefined();
+        });
+
+        it('should skip and report paragraphs without timing', () => {
+            const document = new TtmlFormat().parse(
+                '<tt><body><p>Untimed</p><p begin="1s" end="2s">Timed</p></body></tt>',
+            );
+
+            expect(document.cues).toHaveLength(1);
+            expect(document.warnings).toEqual(['Skipped <p> without readable begin and end times: "<p>"']);
+        });
+
+        it('should report content that is not TTML', () => {
+            expect(new TtmlFormat().parse('1\n00:00:01,000 --> 00:00:02,000\nHi\n').warnings).toEqual([
+                'No <tt> root element found',
+            ]);
+        });
+    });
+
+    describe('serialize', () => {
+        it('should write spans for inline tags and escape the text', () => {
+            const srt = new SrtFormat().parse('1\n00:00:01,000 --> 00:00:02,500\n<i>Tom</i> & <b>Jerry</b>\nBye\n');
+            const { document } = FormatConverter.convert(srt, 'ttml');
+
+            expect(new TtmlFormat('en').serialize(document)).toBe(
+                [
+                    '<?xml version="1.0" encoding="UTF-8"?>',
+                    '<tt xmlns="http://www.w3.org/ns/ttml" xmlns:tts="http://www.w3.org/ns/ttml#styling" xml:lang="en">',
+                    '  <body>',
+                    '    <div>',
+                    '      <p begin="00:00:01.000" end="00:00:02.500"><span tts:fontStyle="italic">Tom</span> &amp; <span tts:fontWeight="bold">Jerry</span><br/>Bye</p>',
+                    '    </div>',
+                    '  </body>',
+                    '</tt>',
+                    '',
+                ].join('\n'),
+            );
+        });
+
+        it('should leave out xml:lang when no language is set', () => {
+            const srt = new SrtFormat().parse('1\n00:00:01,000 --> 00:00:02,000\nHi\n');
+
+            expect(new TtmlFormat().serialize(srt)).toContain(
+                '<tt xmlns="http://www.w3.org/ns/ttml" xmlns:tts="http://www.w3.org/ns/ttml#styling">',
+            );
+        });
+
+        it('should escape a literal angle bracket it read back', () => {
+            const ttml = new TtmlFormat();
+            const document = ttml.parse('<tt><body><p begin="1s" end="2s">a &lt; b &amp; c</p></body></tt>');
+            const srt = new SrtFormat().serialize(document);
+
+            expect(srt).toContain('\na < b & c\n');
+            expect(ttml.serialize(new SrtFormat().parse(srt))).toContain('>a &lt; b &amp; c</p>');
+        });
+
+        it('should mark right-to-left text', () => {
+            const srt = new SrtFormat().parse('1\n00:00:01,000 --> 00:00:02,000\n<i>مرحبا</i> world\n');
+
+            expect(new TtmlFormat().serialize(srt)).toContain(
+                '<p begin="00:00:01.000" end="00:00:02.000" tts:direction="rtl"><span tts:fontStyle="italic">مرحبا</span> world</p>',
+            );
+        });
+
+        it('should read back what it writes', () => {
+            const ttml = new TtmlFormat();
+            const document = ttml.parse(DFXP);
+
+            expect(ttml.parse(ttml.serialize(document)).cues).toEqual(document.cues);
+        });
+    });
+
+    it('should be picked for .ttml and .dfxp files', () => {
+        expect(FormatRegistry.resolveInputFormat('movie.ttml')).toBe('ttml');
+        expect(FormatRegistry.resolveInputFormat('movie.dfxp')).toBe('ttml');
+        expect(FormatRegistry.create('ttml')).toBeInstanceOf(TtmlFormat);
+    });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect } from '@jest/globals';
+import iconv from 'iconv-lite';
+
+import VietnameseLegacyService from '../src/VietnameseLegacyService';
+
+describe('VietnameseLegacyService', () => {
+    const vietnamese = 'Xin chào, tôi là người Việt Nam.\nHôm nay trời đẹp quá, chúng ta đi dạo nhé?\n';
+
+    // The same text as it shows in windows-1252
+    const vni = Buffer.from(
+        'Xin chaøo, toâi laø ngöôøi Vieät Nam.\nHoâm nay trôøi ñeïp quaù, chuùng ta ñi daïo nheù?\n',
+        'latin1',
+    );
+    const tcvn3 = Buffer.from(
+        'Xin chµo, t«i lµ ng\u00adêi ViÖt Nam.\nH«m nay trêi ®Ñp qu¸, chóng ta ®i d¹o nhÐ?\n',
+        'latin1',
+    );
+
+    describe('decode', () => {
+        it('should read VNI, marks typed after their vowel', () => {
+            expect(VietnameseLegacyService.decode(vni, 'vni')).toBe(vietnamese);
+        });
+
+        it('should read VNI capitals', () => {
+            expect(VietnameseLegacyService.decode(Buffer.from('VIEÄT NAM, ÑÖÔØNG', 'latin1'), 'vni')).toBe(
+                'VIỆT NAM, ĐƯỜNG',
+            );
+        });
+
+        it('should read TCVN3', () => {
+            expect(VietnameseLegacyService.decode(tcvn3, 'tcvn3')).toBe(vietnamese);
+        });
+
+        it('should compose windows-1258 tones onto their letters', () => {
+            // "Việt": ê, then the combining dot below
+            const decoded = VietnameseLegacyService.decode(Buffer.from([0x56, 0x69, 0xea, 0xf2, 0x74]), 'windows-1258');
+
+            expect(decoded).toBe('Việt');
+            expect(decoded).toHaveLength(4);
+        });
+    });
+
+    describe('detect', () => {
+        it('should recognise VNI and TCVN3 passing as windows-1252', () => {
+            expect(VietnameseLegacyService.detect(vni, 'windows-1252')).toBe('vni');
+            expect(VietnameseLegacyService.detect(tcvn3, 'windows-1252')).toBe('tcvn3');
+        });
+
+        it('should recognise windows-1258', () => {
+            // "Việt Nam đàng"
+            const bytes = Buffer.from([
+                0x56, 0x69, 0xea, 0xf2, 0x74, 0x20, 0x4e, 0x61, 0x6d, 0x20, 0xf0, 0xe0, 0x6e, 0x67,
+            ]);
+
+            expect(VietnameseLegacyService.detect(bytes, 'windows-1252')).toBe('windows-1258');
+        });
+
+        it('should keep a detected encoding that reads well', () => {
+            expect(VietnameseLegacyService.detect(Buffer.from(vietnamese, 'utf8'), 'UTF-8')).toBeNull();
+            expect(VietnameseLegacyService.detect(Buffer.from('Hello there\n'), 'UTF-8')).toBeNull();
+        });
+
+        it('should not take other Latin text for Vietnamese', () => {
+            const french = iconv.encode('Un café crème, très bien. À bientôt, ça va?\n', 'latin1');
+
+            expect(VietnameseLegacyService.detect(french, 'ISO-8859-1')).toBeNull();
+        });
+    });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect } from '@jest/globals';
+
+import AssFormat from '../src/formats/AssFormat';
+import SrtFormat from '../src/formats/SrtFormat';
+import VttFormat from '../src/formats/VttFormat';
+
+const VTT_FILE = `WEBVTT - Arabic subtitles
+Kind: captions
+
+STYLE
+::cue {
+  color: yellow;
+}
+
+NOTE This file was exported by hand
+
+intro
+00:00:01.000 --> 00:00:03.500 align:start line:10%
+<v Ahmed>Hello, world</v>
+Second line
+
+00:01:02.250 --> 01:00:00.000
+مرحبا &amp; أهلا
+`;
+
+describe('VttFormat', () => {
+    describe('parse', () => {
+        it('should turn cue blocks into cues with identifiers, settings and voices', () => {
+            const document = new VttFormat().parse(VTT_FILE);
+
+            expect(document.format).toBe('vtt');
+            expect(document.warnings).toEqual([]);
+            expect(document.cues).toHaveLength(2);
+            expect(document.cues[0]).toEqual({
+                index: 1,
+                identifier: 'intro',
+                start: 1000,
+                end: 3500,
+                lines: ['<v Ahmed>Hello, world</v>', 'Second line'],
+                tags: ['<v Ahmed>', '</v>'],
+                voice: 'Ahmed',
+                settings: { align: 'start', line: '10%' },
+            });
+            expect(document.cues[1].identifier).toBeUndefined();
+            expect(document.cues[1].start).toBe(62250);
+            expect(document.cues[1].end).toBe(3600000);
+            expect(document.cues[1].lines).toEqual(['مرحبا &amp; أهلا']);
+        });
+
+        it('should keep the header and NOTE/STYLE blocks as sections', () => {
+            const document = new VttFormat().parse(VTT_FILE);
+
+            expect(document.sections).toEqual([
+                { name: 'WEBVTT', lines: ['- Arabic subtitles', 'Kind: captions'] },
+                { name: 'STYLE', lines: ['', '::cue {', '  color: yellow;', '}'] },
+                { name: 'NOTE', lines: ['This file was exported by hand'] },
+            ]);
+        });
+
+        it('should read short timestamps without hours', () => {
+            const document = new VttFormat().parse('WEBVTT\n\n01:02.500 --> 01:04.000\nShort\n');
+
+            expect(document.cues[0].start).toBe(62500);
+            expect(document.cues[0].end).toBe(64000);
+        });
+
+        it('should warn about a missing header and blocks without timing', () => {
+            const document = new VttFormat().parse('00:00:01.000 --> 00:00:02.000\nText\n\njust some text\n');
+
+            expect(document.cues).toHaveLength(1);
+            expect(document.warnings).toHaveLength(2);
+        });
+    });
+
+    describe('serialize', () => {
+        it('should round-trip a file', () => {
+            const vtt = new VttFormat();
+
+            expect(vtt.serialize(vtt.parse(VTT_FILE))).toBe(VTT_FILE);
+        });
+
+        it('should write a WEBVTT header and drop SRT coordinates for SRT documents', () => {
+            const document = new SrtFormat().parse(
+                '1\n00:00:01,000 --> 00:00:02,500 X1:100 X2:600 Y1:20 Y2:50\nLine one\nLine two\n',
+            );
+
+            expect(new VttFormat().serialize(document)).toBe(
+                'WEBVTT\n\n00:00:01.000 --> 00:00:02.500\nLine one\nLine two\n',
+            );
+        });
+
+        it('should carry voices over to ASS and back', () => {
+            const document = new VttFormat().parse(VTT_FILE);
+            const ass = new AssFormat().serialize(document);
+
+            expect(ass).toContain('Dialogue: 0,0:00:01.00,0:00:03.50,Default,Ahmed,0,0,0,,');
+        });
+    });
+});
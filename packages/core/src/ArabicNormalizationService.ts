@@ -0,0 +1,52 @@
+import { IArabicOptions } from '@subzilla/types';
+
+// Presentation forms A and B (U+FB50–U+FDFF, U+FE70–U+FEFC), leaving out the
+// variation selectors and CJK forms that share U+FE00–U+FE6F
+const PRESENTATION_FORMS = /[\uFB50-\uFDFF\uFE70-\uFEFC]/g;
+
+const TATWEEL = /\u0640/g;
+
+// Harakat, tanwin, shadda, sukun and the rarer marks after them, and the superscript alef
+const TASHKEEL = /[\u064B-\u065F\u0670]/g;
+
+// A Latin comma, semicolon or question mark after an Arabic letter, as legacy tools wrote them
+const LATIN_PUNCTUATION = /(?<=[\u0621-\u065F\u066E-\u06D3\u06FA-\u06FF\u0750-\u077F][^\S\n]*)[,;?]/g;
+
+const ARABIC_PUNCTUATION: Record<string, string> = {
+    ',': '،',
+    ';': '؛',
+    '?': '؟',
+};
+
+/**
+ * Normalizes Arabic text that legacy tools left hard to search, edit or render
+ *
+ * Presentation forms (`ﻻ`, `ﺍﻟ`) are shaped glyphs rather than letters, so
+ * they are mapped back to the letters they show, and tatweel (`ـ`), which
+ * only stretches words, is dropped. Tashkeel is only removed on request.
+ */
+export default class ArabicNormalizationService {
+    /**
+     * Apply the normalizations `options` turn on
+     * @param text Cue text
+     * @param options `normalize` for presentation forms and tatweel, `punctuation` and `removeTashkeel`
+     * @returns The text, unchanged when nothing is turned on
+     */
+    public static normalize(text: string, options: IArabicOptions): string {
+        let result = text;
+
+        if (options.normalize) {
+            result = result.replace(PRESENTATION_FORMS, (char) => char.normalize('NFKC')).replace(TATWEEL, '');
+        }
+
+        if (options.removeTashkeel) {
+            result = result.replace(TASHKEEL, '');
+        }
+
+        if (options.punctuation) {
+            result = result.replace(LATIN_PUNCTUATION, (char) => ARABIC_PUNCTUATION[char]);
+        }
+
+        return result;
+    }
+}
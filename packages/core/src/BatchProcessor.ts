@@ -4,9 +4,14 @@ import path from 'path';
 import { SingleBar, Presets } from 'cli-progress';
 import { glob } from 'glob';
 
-import { IBatchOptions, IBatchStats } from '@subzilla/types';
+import { IBatchOptions, IBatchStats, IConvertOptions, IEncodingConsensus } from '@subzilla/types';
 
+import EncodingConversionService from './EncodingConversionService';
+import EncodingDetectionService from './EncodingDetectionService';
+import FormatRegistry from './formats/FormatRegistry';
+import FormatSniffer from './formats/FormatSniffer';
 import SubtitleProcessor from './SubtitleProcessor';
+import SuffixOutputStrategy from './utils/SuffixOutputStrategy';
 
 export default class BatchProcessor {
     private processor: SubtitleProcessor;
@@ -15,6 +20,8 @@ export default class BatchProcessor {
     private stats: IBatchStats;
     private shouldStop: boolean = false;
     private currentFile: string = '';
+    // Files the consensus pass read, kept until they are processed so they are read only once
+    private inputs = new Map<string, Buffer>();
 
     constructor() {
         this.processor = new SubtitleProcessor();
@@ -40,6 +47,7 @@ export default class BatchProcessor {
     public async processBatch(pattern: string, options: IBatchOptions): Promise<IBatchStats> {
         try {
             this.startTime = Date.now();
+            this.stats.consensusOverrides = undefined;
 
             // Find matching files
             const files = await this.findFiles(pattern, options);
@@ -101,6 +109,9 @@ export default class BatchProcessor {
         } catch (error) {
             this.progressBar?.stop();
             throw error;
+        } finally {
+            // Files a stopped batch never got to
+            this.inputs.clear();
         }
     }
 
@@ -118,7 +129,7 @@ export default class BatchProcessor {
 
         const files = await glob(pattern, globOptions);
 
-        return files
+        const matched = files
             .map((file) => String(file))
             .filter((file) => {
                 // Apply maxDepth filtering manually if needed
@@ -179,6 +190,44 @@ export default class BatchProcessor {
 
                 return true;
             });
+
+        return this.keepSubtitleFiles(matched, options);
+    }
+
+    /**
+     * Drop files that neither have a subtitle extension nor look like subtitles inside
+     *
+     * `.txt` files holding SRT and DFXP saved as `.xml` are kept. An explicit input
+     * format means the caller knows what the files are, so nothing is dropped.
+     */
+    private async keepSubtitleFiles(files: string[], options: IBatchOptions): Promise<string[]> {
+        const inputFormat = options.common.inputFormat;
+
+        if (inputFormat && inputFormat !== 'auto') return files;
+
+        const kept: string[] = [];
+
+        // One file at a time, so large globs do not run out of file handles
+        for (const file of files) {
+            if (FormatRegistry.fromPath(file) || (await this.looksLikeSubtitles(file))) {
+                kept.push(file);
+            } else {
+                console.log(`⏭️ Skipping ${path.basename(file)}: not a subtitle file`);
+            }
+        }
+
+        return kept;
+    }
+
+    private async looksLikeSubtitles(file: string): Promise<boolean> {
+        try {
+            const sniffed = await FormatSniffer.sniffFile(file);
+
+            return sniffed !== null && sniffed.confidence >= FormatSniffer.MIN_CONFIDENCE;
+        } catch {
+            // Unreadable files are left for processing to report
+            return true;
+        }
     }
 
     private countDirectories(files: string[]): number {
@@ -231,31 +280,109 @@ export default class BatchProcessor {
         if (this.shouldStop) return;
 
         // Create output directory structure if needed
-        if (options.batch.preserveStructure && options.common.outputDir) {
-            const relativePath = path.relative(process.cwd(), dir);
-            const outputPath = path.join(options.common.outputDir, relativePath);
+        const outputDir = this.getOutputDirectory(dir, options);
 
-            await fs.mkdir(outputPath, { recursive: true });
+        if (options.batch.preserveStructure && outputDir) {
+            await fs.mkdir(outputDir, { recursive: true });
         }
 
+        const consensus = options.batch.encodingConsensus
+            ? await this.applyEncodingConsensus(files, options)
+            : undefined;
+
         // Process files
         if (options.batch.parallel) {
             const chunks = this.chunkArray(files, options.batch.chunkSize || 5);
 
             for (const chunk of chunks) {
                 if (this.shouldStop) break;
-                await Promise.all(chunk.map((file) => this.processFile(file, dir, options)));
+                await Promise.all(chunk.map((file) => this.processFile(file, dir, options, consensus)));
             }
         } else {
             for (const file of files) {
                 if (this.shouldStop) break;
-                await this.processFile(file, dir, options);
+                await this.processFile(file, dir, options, consensus);
             }
         }
     }
 
-    private async processFile(file: string, dir: string, options: IBatchOptions): Promise<void> {
-        const outputPath = this.getOutputPath(file, dir, options);
+    /**
+     * Find the encoding most of a directory's files share, and pick it for the
+     * files whose own detection is unsure
+     *
+     * Skipped when the encoding is forced anyway; `encodingOverrides` still win
+     * over the consensus for the files they match.
+     * @returns The consensus, whose detections the files are then read with
+     */
+    private async applyEncodingConsensus(
+        files: string[],
+        options: IBatchOptions,
+    ): Promise<IEncodingConsensus | undefined> {
+        const { encoding, language, minConfidence, detectionSampleSize } = options.common;
+
+        if (encoding && encoding !== 'auto') return undefined;
+
+        const contents = new Map<string, Buffer>();
+
+        // One file at a time, so large directories do not run out of file handles
+        for (const file of files) {
+            try {
+                contents.set(file, await fs.readFile(file));
+            } catch {
+                // Left to processing, which reports the file as failed
+            }
+        }
+
+        const consensus = EncodingDetectionService.detectConsensusFromBuffers(contents, {
+            language,
+            minConfidence,
+            sampleSize: detectionSampleSize,
+        });
+
+        contents.forEach((content, file) => this.inputs.set(file, content));
+
+        if (!consensus.encoding) return consensus;
+
+        this.stats.consensusOverrides ??= [];
+
+        for (const file of consensus.outliers) {
+            const detection = consensus.detections[file];
+
+            this.stats.consensusOverrides.push({
+                file,
+                detected: detection.encoding,
+                confidence: detection.confidence,
+                encoding: consensus.encoding,
+            });
+        }
+
+        return consensus;
+    }
+
+    /**
+     * Read an outlier with the consensus encoding, and any other file with the
+     * detection the consensus pass already made, both from the content it read
+     */
+    private withConsensus(file: string, options: IConvertOptions, consensus?: IEncodingConsensus): IConvertOptions {
+        if (!consensus) return options;
+
+        const input = this.inputs.get(file);
+
+        if (consensus.encoding && consensus.outliers.includes(file)) {
+            return { ...options, encoding: consensus.encoding, input };
+        }
+
+        return { ...options, detection: consensus.detections[file], input };
+    }
+
+    private async processFile(
+        file: string,
+        dir: string,
+        options: IBatchOptions,
+        consensus?: IEncodingConsensus,
+    ): Promise<void> {
+        const outputDir = this.getOutputDirectory(dir, options);
+        const outputPath = this.getExpectedOutputPath(file, outputDir, options);
         const dirStats = this.stats.filesByDirectory[dir];
         const fileName = path.basename(file);
 
@@ -282,10 +409,21 @@ export default class BatchProcessor {
                         return;
                     }
 
-                    await this.processor.processFile(file, outputPath, options.common);
+                    // The processor names the output, since only it knows what a misnamed file really is
+                    const { decodeQuality } = await this.processor.processFile(file, undefined, {
+                        ...this.withConsensus(file, options.common, consensus),
+                        outputDir,
+                    });
+                    const lossy = EncodingConversionService.describeDecodeQuality(decodeQuality);
+
                     dirStats.successful++;
                     this.stats.successful++;
 
+                    // Written, but the user should know the text may be damaged
+                    if (lossy && options.common.invalidBytes !== 'ignore') {
+                        this.stats.errors.push({ file, error: `Lossy decode: ${lossy}`, decodeQuality });
+                    }
+
                     return;
                 } catch (error) {
                     attempts++;
@@ -311,6 +449,7 @@ export default class BatchProcessor {
                 }
             }
         } finally {
+            this.inputs.delete(file);
             this.progressBar?.increment();
         }
     }
@@ -325,18 +464,31 @@ export default class BatchProcessor {
         return name.substring(0, availableLength) + '...' + ext;
     }
 
-    private getOutputPath(file: string, dir: string, options: IBatchOptions): string | undefined {
+    private getOutputDirectory(dir: string, options: IBatchOptions): string | undefined {
         if (!options.common.outputDir) return undefined;
 
-        const fileName = path.basename(file, path.extname(file)) + '.subzilla' + path.extname(file);
-
         if (options.batch.preserveStructure) {
-            const relativePath = path.relative(process.cwd(), dir);
-
-            return path.join(options.common.outputDir, relativePath, fileName);
+            return path.join(options.common.outputDir, path.relative(process.cwd(), dir));
         }
 
-        return path.join(options.common.outputDir, fileName);
+        return options.common.outputDir;
+    }
+
+    /**
+     * Where a file's output should land, for skipping existing outputs before the file is read.
+     * Goes by the extension, so a misnamed file is looked for under the name it claims.
+     */
+    private getExpectedOutputPath(
+        file: string,
+        outputDir: string | undefined,
+        options: IBatchOptions,
+    ): string | undefined {
+        if (!outputDir) return undefined;
+
+        const format = FormatRegistry.resolveInputFormat(file, options.common.inputFormat);
+        const outputFormat = FormatRegistry.resolveOutputFormat(file, format, options.common.outputFormat);
+
+        return path.join(outputDir, path.basename(new SuffixOutputStrategy().getOutputPath(file, outputFormat)));
     }
 
     private async fileExists(filePath: string): Promise<boolean> {
@@ -382,6 +534,16 @@ export default class BatchProcessor {
             `   ⏱ Time:    ${this.stats.timeTaken.toFixed(2)}s (${this.stats.averageTimePerFile.toFixed(2)}s/file)`,
         );
 
+        if (this.stats.consensusOverrides?.length) {
+            console.log("\n🧭 Read with their directory's encoding:");
+            console.log('───────────────────────────');
+            this.stats.consensusOverrides.forEach(({ file, detected, confidence, encoding }) => {
+                console.log(
+                    `   ${path.basename(file)}: ${encoding} (detected ${detected}, ${Math.round(confidence * 100)}%)`,
+                );
+            });
+        }
+
         if (this.stats.errors.length > 0) {
             console.log('\n❌ Errors:');
             console.log('───────────────────────────');
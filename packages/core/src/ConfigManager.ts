@@ -4,7 +4,14 @@ import path from 'path';
 import yaml from 'yaml';
 import { z } from 'zod';
 
-import { IConfig, IConfigResult, TConfigSegment, configSchema } from '@subzilla/types';
+import {
+    IConfig,
+    IConfigResult,
+    IReplaceRule,
+    TConfigSegment,
+    configSchema,
+    replaceRulesSchema,
+} from '@subzilla/types';
 
 /**
  * Manages configuration loading, validation, and saving
@@ -25,7 +32,16 @@ export default class ConfigManager {
     private static readonly KNOWN_PROPERTIES: Record<string, Record<string, string>> = {
         input: {
             encoding: 'encoding',
+            encodingoverrides: 'encodingOverrides',
+            minconfidence: 'minConfidence',
+            lowconfidence: 'lowConfidence',
+            fixmojibake: 'fixMojibake',
+            mixedencodings: 'mixedEncodings',
+            invalidbytes: 'invalidBytes',
+            detectionsamplesize: 'detectionSampleSize',
             format: 'format',
+            fps: 'fps',
+            language: 'language',
         },
         output: {
             directory: 'directory',
@@ -33,6 +49,7 @@ export default class ConfigManager {
             overwritebackup: 'overwriteBackup',
             format: 'format',
             encoding: 'encoding',
+            unrepresentable: 'unrepresentable',
             bom: 'bom',
             lineendings: 'lineEndings',
             overwriteinput: 'overwriteInput',
@@ -49,6 +66,17 @@ export default class ConfigManager {
             emojis: 'emojis',
             brackets: 'brackets',
             bidicontrol: 'bidiControl',
+            hearingimpaired: 'hearingImpaired',
+        },
+        arabic: {
+            normalize: 'normalize',
+            removetashkeel: 'removeTashkeel',
+            punctuation: 'punctuation',
+        },
+        rtl: {
+            visualorder: 'visualOrder',
+            fixpunctuation: 'fixPunctuation',
+            markers: 'markers',
         },
         batch: {
             recursive: 'recursive',
@@ -59,6 +87,7 @@ export default class ConfigManager {
             excludedirectories: 'excludeDirectories',
             preservestructure: 'preserveStructure',
             chunksize: 'chunkSize',
+            encodingconsensus: 'encodingConsensus',
             retrycount: 'retryCount',
             retrydelay: 'retryDelay',
             failfast: 'failFast',
@@ -331,14 +360,45 @@ export default class ConfigManager {
             result.strip = { ...(target.strip || {}), ...source.strip };
         }
 
+        // Merge arabic
+        if (source.arabic !== undefined) {
+            result.arabic = { ...(target.arabic || {}), ...source.arabic };
+        }
+
+        // Merge rtl
+        if (source.rtl !== undefined) {
+            result.rtl = { ...(target.rtl || {}), ...source.rtl };
+        }
+
         // Merge batch
         if (source.batch !== undefined) {
             result.batch = { ...(target.batch || {}), ...source.batch };
         }
 
+        // Replace rules are an ordered list, so a later source replaces it whole
+        if (source.replace !== undefined) {
+            result.replace = source.replace;
+        }
+
         return result;
     }
 
+    /**
+     * 📜 Load a shared pack of replace rules: a YAML or JSON list, or a file with a `replace` section
+     */
+    public static async loadRules(filePath: string): Promise<IReplaceRule[]> {
+        const content = yaml.parse(await fs.readFile(filePath, 'utf8'));
+        const parsed = replaceRulesSchema.safeParse(Array.isArray(content) ? content : content?.replace);
+
+        if (!parsed.success) {
+            const issues = parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`).join('; ');
+
+            throw new Error(`Invalid replace rules in ${filePath}: ${issues}`);
+        }
+
+        return parsed.data;
+    }
+
     /**
      * 💾 Save configuration to file
      */
@@ -1,8 +1,176 @@
 import iconv from 'iconv-lite';
 
+import { IDecodeQuality, IUnrepresentableChar, TUnrepresentablePolicy } from '@subzilla/types';
+
+// Plain stand-ins for punctuation and ligatures legacy codepages lack
+const TRANSLITERATIONS: Record<string, string> = {
+    '‘': "'",
+    '’': "'",
+    '‚': "'",
+    '“': '"',
+    '”': '"',
+    '„': '"',
+    '«': '"',
+    '»': '"',
+    '–': '-',
+    '—': '-',
+    '…': '...',
+    '•': '*',
+    '\u00a0': ' ',
+    œ: 'oe',
+    Œ: 'OE',
+    æ: 'ae',
+    Æ: 'AE',
+    ß: 'ss',
+    '€': 'EUR',
+    '©': '(c)',
+    '®': '(R)',
+    '™': '(TM)',
+};
+
 export default class EncodingConversionService {
+    // Per encoding, whether each character seen so far survives a round trip
+    private static encodable = new Map<string, Map<string, boolean>>();
+
+    public static isSupported(encoding: string): boolean {
+        return iconv.encodingExists(encoding);
+    }
+
     public static convertToUtf8(content: Buffer, originalEncoding: string): string {
         // Convert from original encoding to a UTF-8 string
         return iconv.decode(content, originalEncoding);
     }
+
+    /**
+     * Count what decoding produced beyond text: U+FFFD for invalid bytes, and
+     * control characters subtitles never contain, which point at the wrong encoding
+     * @param content Text as decoded
+     * @returns The counts, and the line of the first one
+     */
+    public static assessDecoded(content: string): IDecodeQuality {
+        const quality: IDecodeQuality = { replacements: 0, controls: 0, c1Controls: 0 };
+
+        for (const match of content.matchAll(/[^\P{Cc}\t\n\r]|\uFFFD/gu)) {
+            const code = match[0].charCodeAt(0);
+
+            if (code === 0xfffd) {
+                quality.replacements++;
+            } else if (code >= 0x80) {
+                quality.c1Controls++;
+            } else {
+                quality.controls++;
+            }
+
+            quality.line ??= content.slice(0, match.index).split('\n').length;
+        }
+
+        return quality;
+    }
+
+    /**
+     * Summarise a decode for messages, e.g. `3 invalid bytes, 1 control character (from line 12)`
+     * @returns An empty string when the decode was clean
+     */
+    public static describeDecodeQuality(quality: IDecodeQuality): string {
+        const counts = [
+            [quality.replacements, 'invalid byte'],
+            [quality.controls, 'control character'],
+            [quality.c1Controls, 'C1 control'],
+        ] as const;
+        const parts = counts
+            .filter(([count]) => count > 0)
+            .map(([count, noun]) => `${count} ${noun}${count > 1 ? 's' : ''}`);
+
+        return parts.length > 0 ? `${parts.join(', ')} (from line ${quality.line})` : '';
+    }
+
+    /**
+     * Encode text, dealing with characters the encoding cannot represent according to `policy`
+     * @param content The text to encode
+     * @param encoding Any encoding iconv-lite knows
+     * @param options `policy` defaults to `fail`; `bom` is ignored for encodings that have none
+     * @returns The bytes, and every character that had to be replaced or dropped
+     */
+    public static convertFromUtf8(
+        content: string,
+        encoding: string,
+        options: { policy?: TUnrepresentablePolicy; bom?: boolean } = {},
+    ): { buffer: Buffer; unrepresentable: IUnrepresentableChar[] } {
+        const policy = options.policy ?? 'fail';
+        const found = new Map<string, IUnrepresentableChar>();
+
+        const text = content
+            .split('\n')
+            .map((line, index) =>
+                Array.from(line, (char) => {
+                    if (this.canEncode(char, encoding)) return char;
+
+                    const entry = found.get(char) ?? {
+                        char,
+                        count: 0,
+                        line: index + 1,
+                        replacement: policy === 'transliterate' ? this.transliterate(char, encoding) : '?',
+                    };
+
+                    entry.count++;
+                    found.set(char, entry);
+
+                    return entry.replacement;
+                }).join(''),
+            )
+            .join('\n');
+
+        const unrepresentable = [...found.values()];
+
+        if (policy === 'fail' && unrepresentable.length > 0) {
+            const listed = unrepresentable
+                .slice(0, 5)
+                .map((entry) => `"${entry.char}" (line ${entry.line})`)
+                .join(', ');
+            const more = unrepresentable.length > 5 ? ` and ${unrepresentable.length - 5} more` : '';
+
+            throw new Error(`${encoding} cannot represent ${listed}${more}`);
+        }
+
+        return { buffer: iconv.encode(text, encoding, { addBOM: options.bom }), unrepresentable };
+    }
+
+    private static canEncode(char: string, encoding: string): boolean {
+        let known = this.encodable.get(encoding);
+
+        if (!known) {
+            known = new Map();
+            this.encodable.set(encoding, known);
+        }
+
+        let result = known.get(char);
+
+        if (result === undefined) {
+            result = iconv.decode(iconv.encode(char, encoding), encoding) === char;
+            known.set(char, result);
+        }
+
+        return result;
+    }
+
+    /**
+     * The nearest text the encoding can represent: the compatibility form
+     * (`ﻻ` as `لا`), a plain stand-in (`“` as `"`), or the letter without its
+     * accents (`é` as `e`), else `?`
+     */
+    private static transliterate(char: string, encoding: string): string {
+        const candidates = [
+            char.normalize('NFKC'),
+            TRANSLITERATIONS[char],
+            char.normalize('NFKD').replace(/\p{M}/gu, ''),
+        ];
+        const match = candidates.find(
+            (candidate) =>
+                candidate !== undefined &&
+                candidate !== char &&
+                Array.from(candidate).every((part) => this.canEncode(part, encoding)),
+        );
+
+        return match ?? '?';
+    }
 }
@@ -1,8 +1,57 @@
 import fs from 'fs';
 
-import { detect } from 'chardet';
+import { analyse } from 'chardet';
+
+import {
+    IEncodingCandidate,
+    IEncodingConsensus,
+    IEncodingDetection,
+    IEncodingDetectionOptions,
+    IEncodingSegment,
+} from '@subzilla/types';
+
+import EncodingConversionService from './EncodingConversionService';
+
+interface IScriptHint {
+    /** Letters a language writes beyond ASCII */
+    letters: RegExp;
+    /** Codepages used for it, most common first */
+    codepages: string[];
+    /** Written in Latin letters, so ASCII letters belong in its words */
+    latin?: boolean;
+}
+
+const ARABIC: IScriptHint = { letters: /\p{Script=Arabic}/u, codepages: ['windows-1256', 'ISO-8859-6'] };
+const CYRILLIC: IScriptHint = { letters: /\p{Script=Cyrillic}/u, codepages: ['windows-1251', 'KOI8-R', 'ISO-8859-5'] };
+const UKRAINIAN: IScriptHint = { ...CYRILLIC, codepages: ['windows-1251', 'KOI8-U', 'ISO-8859-5'] };
+const GREEK: IScriptHint = { letters: /\p{Script=Greek}/u, codepages: ['windows-1253', 'ISO-8859-7'] };
+const HEBREW: IScriptHint = { letters: /\p{Script=Hebrew}/u, codepages: ['windows-1255', 'ISO-8859-8'] };
+const TURKISH: IScriptHint = {
+    letters: /[çğıöşüâîûÇĞİÖŞÜÂÎÛ]/u,
+    codepages: ['windows-1254', 'ISO-8859-9'],
+    latin: true,
+};
+
+// Keyed by ISO 639-1 code; other languages fall back to chardet alone
+const LANGUAGE_HINTS: Record<string, IScriptHint> = {
+    ar: ARABIC,
+    fa: ARABIC,
+    ur: ARABIC,
+    ru: CYRILLIC,
+    be: CYRILLIC,
+    bg: CYRILLIC,
+    mk: CYRILLIC,
+    sr: CYRILLIC,
+    uk: UKRAINIAN,
+    el: GREEK,
+    he: HEBREW,
+    tr: TURKISH,
+};
 
 export default class EncodingDetectionService {
+    // Bytes of large inputs chardet and the language hint look at
+    private static readonly DEFAULT_SAMPLE_SIZE = 512 * 1024;
+
     /**
      * Detect BOM (Byte Order Mark) in the buffer
      * @param data The buffer to check for BOM
@@ -13,6 +62,15 @@ export default class EncodingDetectionService {
             return 'UTF-8';
         }
 
+        // Before UTF-16LE, whose BOM is the first half of this one
+        if (data.length >= 4 && data[0] === 0xff && data[1] === 0xfe && data[2] === 0x00 && data[3] === 0x00) {
+            return 'UTF-32LE';
+        }
+
+        if (data.length >= 4 && data[0] === 0x00 && data[1] === 0x00 && data[2] === 0xfe && data[3] === 0xff) {
+            return 'UTF-32BE';
+        }
+
         if (data.length >= 2 && data[0] === 0xff && data[1] === 0xfe) {
             return 'UTF-16LE';
         }
@@ -41,37 +99,408 @@ export default class EncodingDetectionService {
             utf8: 'UTF-8',
             utf16le: 'UTF-16LE',
             utf16be: 'UTF-16BE',
-            windows1252: 'windows-1252',
-            windows1256: 'windows-1256',
-            iso88591: 'ISO-8859-1',
-            iso88596: 'ISO-8859-6',
+            utf32le: 'UTF-32LE',
+            utf32be: 'UTF-32BE',
             latin1: 'ISO-8859-1',
             ascii: 'UTF-8', // Treat ASCII as UTF-8 (compatible)
+            koi8r: 'KOI8-R',
+            koi8u: 'KOI8-U',
+            // GB2312 and GBK are subsets of GB18030, which decodes all three
+            gb2312: 'GB18030',
+            gbk: 'GB18030',
+            cp936: 'GB18030',
+            gb18030: 'GB18030',
+            big5: 'Big5',
+            big5hkscs: 'Big5',
+            cp950: 'Big5',
+            shiftjis: 'Shift_JIS',
+            sjis: 'Shift_JIS',
+            cp932: 'Shift_JIS',
+            windows31j: 'Shift_JIS',
+            eucjp: 'EUC-JP',
+            // UHC (cp949) extends EUC-KR, and iconv-lite decodes EUC-KR with it
+            euckr: 'EUC-KR',
+            cp949: 'EUC-KR',
+            uhc: 'EUC-KR',
         };
+        const windows = /^(?:windows|win|cp)(125\d)$/.exec(normalized);
+        const iso = /^iso8859(\d{1,2})$/.exec(normalized);
+
+        if (windows) return `windows-${windows[1]}`;
+
+        if (iso) return `ISO-8859-${iso[1]}`;
 
         return encodingMap[normalized] || encoding;
     }
 
-    public static detectEncoding(filePath: string): Promise<string> {
-        return new Promise((resolve, reject) => {
-            fs.readFile(filePath, (err: NodeJS.ErrnoException | null, data: Buffer) => {
-                if (err) {
-                    return reject(err);
-                }
+    /**
+     * Whole lines from the head, middle and tail of data larger than `size`
+     *
+     * When none of them has a byte above ASCII, the middle part is moved to the
+     * first one, since those bytes are what tells encodings apart.
+     * @param data The content
+     * @param size The most bytes to take; 0 takes everything
+     */
+    private static sample(data: Buffer, size: number): Buffer {
+        if (size <= 0 || data.length <= size) return data;
+
+        const part = Math.floor(size / 3);
+        const parts = [0, Math.floor((data.length - part) / 2), data.length - part].map((start) =>
+            this.wholeLines(data, start, start + part),
+        );
+
+        if (parts.every((chunk) => chunk.every((byte) => byte < 0x80))) {
+            const first = data.findIndex((byte) => byte >= 0x80);
+            const start = Math.max(0, first - Math.floor(part / 2));
+
+            parts[1] = this.wholeLines(data, start, Math.min(data.length, start + part));
+        }
+
+        return Buffer.concat(parts);
+    }
+
+    /**
+     * The lines of `data` that lie entirely between `start` and `end`, so no
+     * multi-byte character is cut; the range as-is when it holds no line break
+     */
+    private static wholeLines(data: Buffer, start: number, end: number): Buffer {
+        const chunk = data.subarray(start, end);
+        const first = start > 0 ? chunk.indexOf(0x0a) + 1 : 0;
+        const last = end < data.length ? chunk.lastIndexOf(0x0a) + 1 : chunk.length;
+
+        return last > first ? chunk.subarray(first, last) : chunk;
+    }
+
+    /**
+     * Rank chardet's guesses, merging names that normalize to the same encoding
+     * @param data The file content
+     * @returns Candidates with confidence between 0 and 1, best first
+     */
+    private static rankCandidates(data: Buffer): IEncodingCandidate[] {
+        const ranked = new Map<string, number>();
+
+        analyse(data).forEach(({ name, confidence }) => {
+            const encoding = this.normalizeEncoding(name);
+
+            if (confidence > 0 && !ranked.has(encoding)) {
+                ranked.set(encoding, confidence / 100);
+            }
+        });
+
+        return [...ranked].map(([encoding, confidence]) => ({ encoding, confidence }));
+    }
+
+    /**
+     * Decode with each codepage the language is written in (and chardet's guesses)
+     * and rank them by how much valid text in the language's script they produce
+     * @param data The file content
+     * @param candidates chardet's ranked guesses
+     * @param hint The script and codepages of the language
+     * @returns Candidates scored between 0 and 1, best first; ties keep the language's usual codepage
+     */
+    private static rankByLanguage(
+        data: Buffer,
+        candidates: IEncodingCandidate[],
+        hint: IScriptHint,
+    ): IEncodingCandidate[] {
+        const encodings = new Set(['UTF-8', ...hint.codepages, ...candidates.map((candidate) => candidate.encoding)]);
+
+        return [...encodings]
+            .filter((encoding) => EncodingConversionService.isSupported(encoding))
+            .map((encoding) => ({
+                encoding,
+                confidence: this.scoreText(EncodingConversionService.convertToUtf8(data, encoding), hint),
+            }))
+            .sort((a, b) => b.confidence - a.confidence);
+    }
+
+    /**
+     * Score decoded text by its non-ASCII characters: letters of the script in
+     * well-formed words count for it, other letters, control characters and
+     * U+FFFD against it, and symbols and marks not at all
+     *
+     * Words are well-formed when sensibly cased, which catches codepages mapping
+     * the same script to different positions (KOI8-R read as windows-1251 turns
+     * "Привет" into "пРИВЕТ"), and when they do not mix ASCII letters into a
+     * non-Latin script, as Latin text read with a Cyrillic codepage does ("cafй").
+     * @returns The score between 0 and 1
+     */
+    private static scoreText(text: string, hint: IScriptHint): number {
+        let total = 0;
+        let score = 0;
+
+        for (const [token] of text.matchAll(/[\p{L}\p{M}]+|\P{ASCII}/gu)) {
+            const word = /\p{L}/u.test(token);
+            const rest = token.slice(1);
+            const wellFormed =
+                (token === token.toUpperCase() || rest === rest.toLowerCase()) && (hint.latin || !/[a-z]/i.test(token));
+
+            for (const char of token) {
+                if (char.charCodeAt(0) < 0x80) continue;
+
+                total++;
 
-                // First check for BOM
-                const bomEncoding = this.detectBOM(data);
+                if (/\p{M}/u.test(char)) continue;
 
-                if (bomEncoding) {
-                    return resolve(bomEncoding);
+                if (word && /\p{L}/u.test(char)) {
+                    score += hint.letters.test(char) ? Number(wellFormed) : -1;
+                } else if (/[\p{Cc}\uFFFD]/u.test(char)) {
+                    score--;
                 }
+            }
+        }
+
+        return total > 0 ? Math.max(0, score / total) : 0;
+    }
+
+    public static async detectEncoding(filePath: string): Promise<string> {
+        return (await this.detectEncodingDetailed(filePath)).encoding;
+    }
+
+    /**
+     * Detect the encoding of a file along with how sure the guess is
+     *
+     * With a `language` whose script we know (Arabic, Cyrillic, Greek, Hebrew,
+     * Turkish), the codepages it is written in are decoded and scored rather than
+     * trusting chardet's first guess, which often mixes up windows-1256 and
+     * ISO-8859-6 or windows-1251 and KOI8-R on short files.
+     * @param filePath The file to inspect
+     * @param options A forced encoding, a language hint, or the sample size for large files
+     * @returns The encoding, its confidence and source, and the ranked candidates
+     */
+    public static async detectEncodingDetailed(
+        filePath: string,
+        options: IEncodingDetectionOptions = {},
+    ): Promise<IEncodingDetection> {
+        // An override needs no reading
+        const data = options.override ? Buffer.alloc(0) : await fs.promises.readFile(filePath);
+
+        return this.detectEncodingFromBuffer(data, options);
+    }
 
-                // Use chardet for content-based detection
-                const detected = detect(data);
-                const normalized = this.normalizeEncoding(detected);
+    /**
+     * Detect the encoding of content already in memory, as `detectEncodingDetailed` does for files
+     *
+     * Inputs larger than `sampleSize` are ranked by chardet and the language
+     * hint on a sample of whole lines from their head, middle and tail, which
+     * is plenty to tell codepages apart. BOMs and plain ASCII are still
+     * checked over everything.
+     * @param data The content
+     * @param options A forced encoding, a language hint, or the sample size
+     * @returns The encoding, its confidence and source, and the ranked candidates
+     */
+    public static detectEncodingFromBuffer(data: Buffer, options: IEncodingDetectionOptions = {}): IEncodingDetection {
+        const { override } = options;
+
+        if (override) {
+            return {
+                encoding: override,
+                confidence: 1,
+                source: 'override',
+                candidates: [{ encoding: override, confidence: 1 }],
+            };
+        }
+
+        const bomEncoding = this.detectBOM(data);
+
+        if (bomEncoding) {
+            return {
+                encoding: bomEncoding,
+                confidence: 1,
+                source: 'bom',
+                candidates: [{ encoding: bomEncoding, confidence: 1 }],
+            };
+        }
+
+        // 7-bit content reads the same in every ASCII-compatible encoding,
+        // whatever chardet makes of it
+        if (data.every((byte) => byte < 0x80)) {
+            return {
+                encoding: 'UTF-8',
+                confidence: 1,
+                source: 'heuristic',
+                candidates: [{ encoding: 'UTF-8', confidence: 1 }],
+            };
+        }
+
+        const sample = this.sample(data, options.sampleSize ?? this.DEFAULT_SAMPLE_SIZE);
+        const candidates = this.rankCandidates(sample);
+        const hint = LANGUAGE_HINTS[options.language?.toLowerCase().split(/[-_]/)[0] ?? ''];
+
+        if (hint) {
+            const scored = this.rankByLanguage(sample, candidates, hint);
+
+            // No decoding reads as the language at all: the hint is likely wrong, so trust chardet
+            if (scored[0]?.confidence > 0) {
+                return { ...scored[0], source: 'language', candidates: scored };
+            }
+        }
+
+        const best = candidates[0] ?? { encoding: 'UTF-8', confidence: 0 };
+
+        return { ...best, source: 'heuristic', candidates };
+    }
+
+    /**
+     * Detect the encoding of each part of a file merged from differently encoded sources
+     *
+     * The bytes are split at blank lines, which end cues in every format we read.
+     * Blocks that are valid UTF-8 are read as UTF-8, plain ASCII blocks go with
+     * the block before them, and the rest are pooled to detect the one legacy
+     * codepage they share, which short cues are too small to reveal on their own.
+     * Files with a byte order mark are a single segment, as UTF-16 and UTF-32
+     * cannot be split bytewise.
+     * @param filePath The file to inspect
+     * @param options A language hint for the legacy codepage
+     * @returns Consecutive segments covering the whole file, one per change of encoding
+     */
+    public static async detectEncodingSegments(
+        filePath: string,
+        options: Omit<IEncodingDetectionOptions, 'override'> = {},
+    ): Promise<IEncodingSegment[]> {
+        return this.detectEncodingSegmentsFromBuffer(await fs.promises.readFile(filePath), options);
+    }
+
+    /**
+     * Split content already in memory by encoding, as `detectEncodingSegments` does for files
+     */
+    public static detectEncodingSegmentsFromBuffer(
+        data: Buffer,
+        options: Omit<IEncodingDetectionOptions, 'override'> = {},
+    ): IEncodingSegment[] {
+        const blocks: { start: number; end: number; kind: 'ascii' | 'utf8' | 'legacy' }[] = [];
+
+        // latin1 maps bytes one to one, so string offsets are byte offsets
+        for (const match of data.toString('latin1').matchAll(/[^]*?(?:(?:\r?\n){2,}|$)/g)) {
+            const start = match.index ?? 0;
+            const end = start + match[0].length;
+
+            if (end === start) break;
+
+            const bytes = data.subarray(start, end);
+            const kind = bytes.every((byte) => byte < 0x80)
+                ? 'ascii'
+                : Buffer.from(bytes.toString('utf8'), 'utf8').equals(bytes)
+                  ? 'utf8'
+                  : 'legacy';
+
+            blocks.push({ start, end, kind });
+        }
 
-                resolve(normalized);
-            });
+        const legacy = blocks.filter((block) => block.kind === 'legacy');
+
+        if (this.detectBOM(data) || legacy.length === 0 || !blocks.some((block) => block.kind === 'utf8')) {
+            const { encoding } = this.detectEncodingFromBuffer(data, options);
+
+            return [{ encoding, start: 0, end: data.length, firstCue: 1, lastCue: Math.max(blocks.length, 1) }];
+        }
+
+        const legacyEncoding = this.detectEncodingFromBuffer(
+            Buffer.concat(legacy.map((block) => data.subarray(block.start, block.end))),
+            options,
+        ).encoding;
+        const segments: IEncodingSegment[] = [];
+
+        blocks.forEach((block, index) => {
+            const last = segments[segments.length - 1];
+            const encoding = { legacy: legacyEncoding, utf8: 'UTF-8', ascii: last?.encoding }[block.kind];
+
+            // Leading ASCII blocks are picked up by the first segment
+            if (!encoding) return;
+
+            if (last?.encoding === encoding) {
+                last.end = block.end;
+                last.lastCue = index + 1;
+            } else {
+                const first = last ? index : 0;
+
+                segments.push({
+                    encoding,
+                    start: blocks[first].start,
+                    end: block.end,
+                    firstCue: first + 1,
+                    lastCue: index + 1,
+                });
+            }
         });
+
+        return segments;
+    }
+
+    /**
+     * Detect every file in a group, and the encoding most of them agree on
+     *
+     * Only files detected with at least `minConfidence` vote, leaving out BOMs
+     * and plain ASCII, which say nothing about the codepage of the rest. An
+     * encoding needs more than half the votes. Unsure files detected as
+     * something else are outliers, unless the consensus is UTF-8 and they are
+     * not valid UTF-8.
+     * @param filePaths The group, e.g. the files of one directory
+     * @param options A language hint, and the confidence (0.5 by default) below which a detection is unsure
+     * @returns The consensus, each file's detection and the outliers; unreadable files are left out
+     */
+    public static async detectConsensus(
+        filePaths: string[],
+        options: Omit<IEncodingDetectionOptions, 'override'> & { minConfidence?: number } = {},
+    ): Promise<IEncodingConsensus> {
+        const contents = new Map<string, Buffer>();
+
+        // One file at a time, so large groups do not run out of file handles
+        for (const filePath of filePaths) {
+            try {
+                contents.set(filePath, await fs.promises.readFile(filePath));
+            } catch {
+                // Unreadable files are left out
+            }
+        }
+
+        return this.detectConsensusFromBuffers(contents, options);
+    }
+
+    /**
+     * Find the consensus of files already in memory, as `detectConsensus` does for paths
+     * @param contents Each file's content, by path
+     * @param options A language hint, and the confidence (0.5 by default) below which a detection is unsure
+     * @returns The consensus, each file's detection and the outliers
+     */
+    public static detectConsensusFromBuffers(
+        contents: Map<string, Buffer>,
+        options: Omit<IEncodingDetectionOptions, 'override'> & { minConfidence?: number } = {},
+    ): IEncodingConsensus {
+        const minConfidence = options.minConfidence ?? 0.5;
+        const detections: Record<string, IEncodingDetection> = {};
+        const validUtf8 = new Set<string>();
+        const votes = new Map<string, number>();
+        let voters = 0;
+
+        for (const [filePath, data] of contents) {
+            const detection = this.detectEncodingFromBuffer(data, options);
+
+            detections[filePath] = detection;
+
+            if (Buffer.from(data.toString('utf8'), 'utf8').equals(data)) validUtf8.add(filePath);
+
+            if (detection.source === 'bom' || data.every((byte) => byte < 0x80)) continue;
+
+            if (detection.confidence >= minConfidence) {
+                voters++;
+                votes.set(detection.encoding, (votes.get(detection.encoding) ?? 0) + 1);
+            }
+        }
+
+        const [top, agreeing] = [...votes].sort((a, b) => b[1] - a[1])[0] ?? [null, 0];
+        const encoding = agreeing * 2 > voters ? top : null;
+        const outliers = Object.entries(detections)
+            .filter(
+                ([filePath, detection]) =>
+                    encoding &&
+                    detection.source !== 'bom' &&
+                    detection.confidence < minConfidence &&
+                    detection.encoding !== encoding &&
+                    (encoding !== 'UTF-8' || validUtf8.has(filePath)),
+            )
+            .map(([filePath]) => filePath);
+
+        return { encoding, voters, agreeing: encoding ? agreeing : 0, detections, outliers };
     }
 }
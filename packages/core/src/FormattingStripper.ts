@@ -1,4 +1,4 @@
-import { IStripOptions } from '@subzilla/types';
+import { IHearingImpairedOptions, IStripOptions } from '@subzilla/types';
 
 export default class FormattingStripper {
     private htmlTagRegex = /<[^>]+>/g;
@@ -16,7 +16,17 @@ export default class FormattingStripper {
     private punctuationRegex = /[!"#$%&'()*+,-./:;<=>?@[\]^_`{|}~]/g;
     private emojiRegex = /[\u{1F300}-\u{1F9FF}]|[\u{2700}-\u{27BF}]|[\u{1F600}-\u{1F64F}]/gu;
     private bracketsRegex = /[[\](){}⟨⟩<>]/g;
+    // Inline markup left in cue text (unless html or styles strip it), which
+    // numbers, punctuation and brackets stripping must not break apart
+    private markupRegex = /(<\/?(?:b|i|u|s|font|ruby|rt|rp|c|v|lang)(?:[\s.][^>]*)?>|\{\\[^}]*\})/i;
     private bidiControlRegex = /[\u200E\u200F\u202A-\u202E\u2066-\u2069]/g;
+    // SDH annotations; brackets and music may span the lines of a cue
+    private hearingImpairedRegexes: Record<keyof IHearingImpairedOptions, RegExp> = {
+        brackets: /\[[^\]]*\]/g,
+        parentheses: /\([^)]*\)/g,
+        music: /[♪♫][^♪♫]*[♪♫]|[♪♫][^\n]*/g,
+        speakers: /^([^\S\n]*-?[^\S\n]*)\p{Lu}[\p{Lu}\p{N} .'&-]*:[^\S\n]*/gmu,
+    };
     private richTextTags = ['b', 'i', 'u', 's', 'font', 'size', 'color', 'ruby', 'rt', 'rp', 'style', 'class'];
 
     public stripFormatting(content: string, options: IStripOptions): string {
@@ -38,6 +48,10 @@ export default class FormattingStripper {
             result = this.stripStyles(result);
         }
 
+        if (options.hearingImpaired) {
+            result = this.stripHearingImpaired(result, options.hearingImpaired);
+        }
+
         if (options.urls) {
             result = this.stripUrls(result);
         }
@@ -99,6 +113,35 @@ export default class FormattingStripper {
         return content.replace(this.srtStyleRegex, '').replace(this.assStyleRegex, '');
     }
 
+    /**
+     * Remove SDH annotations from cue text. Lines left with nothing but markup
+     * or punctuation (a lone dialogue dash) are dropped, and when one line of
+     * a dialogue survives, so is its dash.
+     */
+    private stripHearingImpaired(content: string, options: true | IHearingImpairedOptions): string {
+        const parts = options === true ? { brackets: true, parentheses: true, music: true, speakers: true } : options;
+        const stripped = (Object.keys(this.hearingImpairedRegexes) as Array<keyof IHearingImpairedOptions>)
+            .filter((part) => parts[part])
+            .reduce(
+                (text, part) => text.replace(this.hearingImpairedRegexes[part], part === 'speakers' ? '$1' : ''),
+                content,
+            );
+
+        if (stripped === content) return content;
+
+        const lines = stripped
+            .split('\n')
+            .map((line) => line.replace(/[^\S\n]{2,}/g, ' ').trim())
+            .filter((line) => line === '' || /[\p{L}\p{N}]/u.test(line.replace(/<[^>]+>|\{\\[^}]*\}/g, '')));
+        const dialogue = content.split('\n').filter((line) => /^\s*-/.test(line)).length > 1;
+
+        if (dialogue && lines.filter((line) => line !== '').length === 1) {
+            return lines.map((line) => line.replace(/^-\s*/, '')).join('\n');
+        }
+
+        return lines.join('\n');
+    }
+
     private stripUrls(content: string): string {
         return content.replace(this.urlRegex, '[URL]');
     }
@@ -108,11 +151,11 @@ export default class FormattingStripper {
     }
 
     private stripNumbers(content: string): string {
-        return content.replace(this.numbersRegex, '#');
+        return this.replaceOutsideMarkup(content, this.numbersRegex, '#');
     }
 
     private stripPunctuation(content: string): string {
-        return content.replace(this.punctuationRegex, '');
+        return this.replaceOutsideMarkup(content, this.punctuationRegex, '');
     }
 
     private stripEmojis(content: string): string {
@@ -120,7 +163,17 @@ export default class FormattingStripper {
     }
 
     private stripBrackets(content: string): string {
-        return content.replace(this.bracketsRegex, '');
+        return this.replaceOutsideMarkup(content, this.bracketsRegex, '');
+    }
+
+    /**
+     * Replace in the text around inline markup, keeping `<i>` or `{\an8}` whole
+     */
+    private replaceOutsideMarkup(content: string, regex: RegExp, replacement: string): string {
+        return content
+            .split(this.markupRegex)
+            .map((part, index) => (index % 2 === 1 ? part : part.replace(regex, replacement)))
+            .join('');
     }
 
     private normalizeWhitespace(content: string): string {
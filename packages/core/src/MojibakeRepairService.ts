@@ -0,0 +1,125 @@
+import { Buffer } from 'buffer';
+
+import { IMojibakeRepair } from '@subzilla/types';
+
+import EncodingConversionService from './EncodingConversionService';
+
+/**
+ * Undoes mojibake: UTF-8 text that another tool decoded with a legacy codepage
+ * and saved again, so "ال" reads "Ø§Ù„" (windows-1252) or "ط§ظ„" (windows-1256)
+ *
+ * Each run of non-ASCII characters is mapped back to the bytes the codepage
+ * gave them; when those bytes are well-formed UTF-8, the run can be undone. A
+ * round only goes ahead when most runs in the text can, since a short word of
+ * real text occasionally happens to spell valid UTF-8 too. Text garbled more
+ * than once is undone round by round until nothing more can be.
+ */
+export default class MojibakeRepairService {
+    // Codepages UTF-8 is most often wrongly decoded with
+    private static readonly CODEPAGES = ['windows-1252', 'windows-1256', 'windows-1251'];
+
+    private static readonly MAX_ROUNDS = 4;
+
+    // Share of non-ASCII runs that must undo cleanly for a round to count as mojibake
+    private static readonly MIN_RUN_RATIO = 0.5;
+
+    private static readonly byteMaps = new Map<string, Map<string, number>>();
+
+    private static runRegex = /\P{ASCII}+/gu;
+
+    /**
+     * Whether the text looks double-encoded
+     */
+    public static detect(text: string): boolean {
+        return this.repair(text).rounds > 0;
+    }
+
+    /**
+     * Undo every round of mojibake found in the text
+     * @returns The repaired text, or the text as-is with `rounds: 0` when it is clean
+     */
+    public static repair(text: string): IMojibakeRepair {
+        const result: IMojibakeRepair = { text, rounds: 0, repairs: 0, codepages: [] };
+
+        while (result.rounds < this.MAX_ROUNDS) {
+            const round = this.repairRound(result.text);
+
+            if (!round) break;
+
+            result.text = round.text;
+            result.rounds++;
+            result.repairs += round.repairs;
+            result.codepages.push(round.codepage);
+        }
+
+        return result;
+    }
+
+    /**
+     * Undo one wrong decode with whichever codepage explains most of the text
+     * @returns The text with the round undone, or null when no codepage explains enough of it
+     */
+    private static repairRound(text: string): { text: string; repairs: number; codepage: string } | null {
+        const runs = text.match(this.runRegex) ?? [];
+
+        if (runs.length === 0) return null;
+
+        const best = this.CODEPAGES.map((codepage) => ({
+            codepage,
+            repairs: runs.filter((run) => this.undo(run, codepage) !== null).length,
+        })).reduce((a, b) => (b.repairs > a.repairs ? b : a));
+
+        if (best.repairs === 0 || best.repairs / runs.length < this.MIN_RUN_RATIO) return null;
+
+        return {
+            text: text.replace(this.runRegex, (run) => this.undo(run, best.codepage) ?? run),
+            repairs: best.repairs,
+            codepage: best.codepage,
+        };
+    }
+
+    /**
+     * Map a run back to the bytes `codepage` decoded it from and read them as UTF-8
+     * @returns The original text, or null when the run is not UTF-8 read with this codepage
+     */
+    private static undo(run: string, codepage: string): string | null {
+        const byteMap = this.getByteMap(codepage);
+        const bytes: number[] = [];
+
+        for (const char of run) {
+            const byte = byteMap.get(char);
+
+            if (byte === undefined) return null;
+
+            bytes.push(byte);
+        }
+
+        const decoded = Buffer.from(bytes).toString('utf8');
+
+        return /[\p{Cc}\uFFFD]/u.test(decoded) ? null : decoded;
+    }
+
+    /**
+     * Characters the codepage gives bytes 0x80-0xFF
+     *
+     * Bytes the codepage leaves undefined are commonly passed through as the
+     * C1 control of the same number, so those map back too.
+     */
+    private static getByteMap(codepage: string): Map<string, number> {
+        let byteMap = this.byteMaps.get(codepage);
+
+        if (!byteMap) {
+            byteMap = new Map();
+
+            for (let byte = 0x80; byte <= 0xff; byte++) {
+                const char = EncodingConversionService.convertToUtf8(Buffer.from([byte]), codepage);
+
+                byteMap.set(char === '\uFFFD' ? String.fromCharCode(byte) : char, byte);
+            }
+
+            this.byteMaps.set(codepage, byteMap);
+        }
+
+        return byteMap;
+    }
+}
@@ -0,0 +1,237 @@
+import { IRtlOptions, IVisualOrderDetection, TRtlMarkers } from '@subzilla/types';
+
+const RTL_SCRIPT = /[\p{Script=Arabic}\p{Script=Hebrew}\p{Script=Syriac}\p{Script=Thaana}]/u;
+
+// Markup, whitespace and bidi controls at either end of a line, which punctuation moves inside of
+const EDGES =
+    /^((?:<[^>]*>|\{[^}]*\}|[\s\u200E\u200F\u202A-\u202E\u2066-\u2069])*)(.*?)((?:<[^>]*>|\{[^}]*\}|[\s\u200E\u200F\u202A-\u202E\u2066-\u2069])*)$/su;
+
+// Sentence punctuation, Latin and Arabic
+const LEADING_PUNCTUATION = /^([.,!?:;\u2026\u060C\u061B\u061F]+)[^\S\n]*/u;
+const TRAILING_PUNCTUATION = /[.,!?:;\u2026\u060C\u061B\u061F]$/u;
+
+// A dialogue dash typed at the end of the line
+const LEADING_DASH = /^[-\u2013\u2014]/u;
+const TRAILING_DASH = /[^\S\n]*[-\u2013\u2014]$/u;
+
+const MARKERS: Record<TRtlMarkers, [string, string]> = {
+    rlm: ['\u200F', ''],
+    rle: ['\u202B', '\u202C'],
+};
+
+// Visual-order lines keep numbers and left-to-right words in display order, so
+// they are reversed as units ("1,000", "12:30", "DVD player"), and every other
+// character with the marks on it
+const LTR_CHAR = '(?:\\p{N}|[^\\P{L}\\p{Script=Arabic}\\p{Script=Hebrew}\\p{Script=Syriac}\\p{Script=Thaana}])';
+const VISUAL_TOKENS = new RegExp(
+    `${LTR_CHAR}(?:(?:${LTR_CHAR}|[.,:'/\\-]|[^\\S\\n])*${LTR_CHAR})?|\\P{M}\\p{M}*`,
+    'gu',
+);
+
+const MIRRORED: Record<string, string> = {
+    '(': ')',
+    ')': '(',
+    '[': ']',
+    ']': '[',
+    '{': '}',
+    '}': '{',
+    '«': '»',
+    '»': '«',
+};
+
+const HEBREW_WORD = /[\u05D0-\u05EA]+/gu;
+const HEBREW_FINALS = '\u05DA\u05DD\u05DF\u05E3\u05E5';
+const HEBREW_NON_FINALS = '\u05DB\u05DE\u05E0\u05E4\u05E6';
+
+// Arabic letters, presentation forms included
+const ARABIC_WORD = /[\u0620-\u064A\u066E-\u06D3\u06FA-\u06FF\uFB50-\uFDFF\uFE81-\uFEFC]+/gu;
+// Teh marbuta, alef maqsura and hamza on the line only end Arabic words
+const ARABIC_FINALS = '\u0629\u0649\u0621';
+
+// Presentation forms B that have initial and medial forms; groups of four from each
+// start: isolated, final, initial, medial. The rest come in pairs: isolated, final.
+const FOUR_FORM_RANGES: Array<[number, number]> = [
+    [0xfe89, 0xfe8c],
+    [0xfe8f, 0xfe92],
+    [0xfe95, 0xfea8],
+    [0xfeb1, 0xfeec],
+    [0xfef1, 0xfef4],
+];
+
+/**
+ * Fixes right-to-left (Arabic, Hebrew, Persian) lines written for players without bidi support
+ *
+ * Those players laid every line out left to right, so authors typed the final
+ * `.` or `?` first and the dialogue dash last to make them show at the right
+ * end. Players that follow the Unicode bidi algorithm show such lines backwards.
+ * Some authors went further and stored whole lines in visual order, the
+ * characters in the order they show from left to right.
+ */
+export default class RtlTextService {
+    /**
+     * Whether a line reads right to left: its first letter, past any markup, is in a right-to-left script
+     */
+    public static isRtl(line: string): boolean {
+        const letter = line.replace(/<[^>]*>|\{[^}]*\}/g, '').match(/\p{L}/u);
+
+        return letter !== null && RTL_SCRIPT.test(letter[0]);
+    }
+
+    /**
+     * Score a line for being stored in visual order, from where letters that only
+     * end words sit: Hebrew final forms (ם, ן) and Arabic ة, ى and ء, and
+     * the shapes of Arabic presentation forms at either end of a word
+     * @returns -1 (logical order) to 1 (visual order); 0 when nothing tells
+     */
+    public static scoreVisualOrder(line: string): number {
+        let logical = 0;
+        let reversed = 0;
+        const text = line.replace(/\p{M}/gu, '');
+
+        for (const [word] of text.matchAll(HEBREW_WORD)) {
+            if (word.length < 2) continue;
+
+            const first = word[0];
+            const last = word[word.length - 1];
+
+            if (HEBREW_FINALS.includes(last)) logical++;
+            if (HEBREW_FINALS.includes(first)) reversed++;
+            if (HEBREW_NON_FINALS.includes(last)) reversed++;
+        }
+
+        for (const [word] of text.matchAll(ARABIC_WORD)) {
+            if (word.length < 2) continue;
+
+            const first = word[0];
+            const last = word[word.length - 1];
+            const firstShape = this.shape(first);
+            const lastShape = this.shape(last);
+
+            if (ARABIC_FINALS.includes(last) || firstShape === 'initial' || lastShape === 'final') logical++;
+            if (ARABIC_FINALS.includes(first) || firstShape === 'final' || lastShape === 'initial') reversed++;
+        }
+
+        return logical + reversed > 0 ? (reversed - logical) / (logical + reversed) : 0;
+    }
+
+    /**
+     * Count the right-to-left lines that read as stored in visual order
+     */
+    public static detectVisualOrder(text: string): IVisualOrderDetection {
+        const detection: IVisualOrderDetection = { lines: 0, reversed: 0 };
+
+        text.split(/\r?\n/).forEach((line, index) => {
+            const score = this.scoreVisualOrder(line);
+
+            if (score === 0) return;
+
+            detection.lines++;
+
+            if (score > 0) {
+                detection.reversed++;
+                detection.line ??= index + 1;
+            }
+        });
+
+        return detection;
+    }
+
+    /**
+     * Reverse the lines that score as visual order back to logical order
+     */
+    public static fixVisualOrder(text: string): string {
+        return text
+            .split('\n')
+            .map((line) => (this.scoreVisualOrder(line) > 0 ? this.toLogicalOrder(line) : line))
+            .join('\n');
+    }
+
+    /**
+     * Reverse a line stored in visual order, keeping numbers and left-to-right
+     * words as they are and swapping brackets. Markup at the ends of the line
+     * stays there; a line with markup inside is returned unchanged, since
+     * reversing would turn its tags inside out.
+     */
+    public static toLogicalOrder(line: string): string {
+        const [, prefix, body, suffix] = line.match(EDGES) ?? ['', '', line, ''];
+
+        if (/<[^>]*>|\{[^}]*\}/.test(body)) return line;
+
+        const tokens = body.match(VISUAL_TOKENS) ?? [];
+
+        return `${prefix}${tokens
+            .reverse()
+            .map((token) => MIRRORED[token] ?? token)
+            .join('')}${suffix}`;
+    }
+
+    /**
+     * Apply the fixes `options` turn on to every right-to-left line
+     * @param text Cue text
+     * @returns The text, with left-to-right lines unchanged
+     */
+    public static fix(text: string, options: IRtlOptions): string {
+        if (!options.fixPunctuation && !options.markers) return text;
+
+        return text
+            .split('\n')
+            .map((line) => {
+                if (!this.isRtl(line)) return line;
+
+                const fixed = options.fixPunctuation ? this.fixPunctuation(line) : line;
+
+                return options.markers ? this.addMarkers(fixed, options.markers) : fixed;
+            })
+            .join('\n');
+    }
+
+    /**
+     * Move a leading `.`, `?` or `...` to the end of the line, and a trailing dialogue dash to the start
+     *
+     * Leading punctuation is left alone when the line already ends with some,
+     * since it is then more likely a continuation (`...and then`).
+     */
+    private static fixPunctuation(line: string): string {
+        const [, prefix, body, suffix] = line.match(EDGES) ?? ['', '', line, ''];
+        let result = body;
+        let dash = '';
+
+        if (TRAILING_DASH.test(result) && !LEADING_DASH.test(result)) {
+            result = result.replace(TRAILING_DASH, '');
+            dash = '- ';
+        }
+
+        const leading = result.match(LEADING_PUNCTUATION);
+
+        if (leading && !TRAILING_PUNCTUATION.test(result)) {
+            // Typed in display order, so `?!` at the start shows as `!?` at the end
+            result = result.slice(leading[0].length) + Array.from(leading[1]).reverse().join('');
+        }
+
+        return `${prefix}${dash}${result}${suffix}`;
+    }
+
+    /**
+     * The form of an Arabic presentation form B letter, or null for anything else
+     */
+    private static shape(char: string): 'isolated' | 'final' | 'initial' | 'medial' | null {
+        const code = char.charCodeAt(0);
+
+        if (code < 0xfe81 || code > 0xfefc) return null;
+
+        const range = FOUR_FORM_RANGES.find(([start, end]) => code >= start && code <= end);
+
+        if (range) {
+            return (['isolated', 'final', 'initial', 'medial'] as const)[(code - range[0]) % 4];
+        }
+
+        // Every pair starts at an odd code point
+        return code % 2 === 1 ? 'isolated' : 'final';
+    }
+
+    private static addMarkers(line: string, markers: TRtlMarkers): string {
+        const [open, close] = MARKERS[markers];
+
+        return line.startsWith(open) ? line : `${open}${line}${close}`;
+    }
+}
@@ -1,21 +1,44 @@
-import { Buffer } from 'buffer';
 import fs from 'fs/promises';
+import path from 'path';
 
-import { IConvertOptions } from '@subzilla/types';
+import { minimatch } from 'minimatch';
 
+import {
+    ICue,
+    IConvertOptions,
+    IDecodeQuality,
+    IEncodingDetection,
+    TReplaceScope,
+    TVietnameseEncoding,
+} from '@subzilla/types';
+
+import ArabicNormalizationService from './ArabicNormalizationService';
 import EncodingConversionService from './EncodingConversionService';
 import EncodingDetectionService from './EncodingDetectionService';
+import FormatConverter from './formats/FormatConverter';
+import FormatRegistry from './formats/FormatRegistry';
 import FormattingStripper from './FormattingStripper';
+import MojibakeRepairService from './MojibakeRepairService';
+import RtlTextService from './RtlTextService';
 import OverwriteOutputStrategy from './utils/OverwriteOutputStrategy';
 import SuffixOutputStrategy from './utils/SuffixOutputStrategy';
+import VietnameseLegacyService from './VietnameseLegacyService';
+
+const VIETNAMESE_ENCODING_NAMES: Record<TVietnameseEncoding, string> = {
+    'windows-1258': 'windows-1258',
+    vni: 'VNI',
+    tcvn3: 'TCVN3 (ABC)',
+};
 
-const UTF8_BOM = Buffer.from([0xef, 0xbb, 0xbf]);
 const LINE_ENDINGS = {
     lf: '\n',
     crlf: '\r\n',
     auto: process.platform === 'win32' ? '\r\n' : '\n',
 };
 
+// A replace rule ready to run: its pattern and replacement
+type TCompiledRule = [RegExp, string];
+
 export default class SubtitleProcessor {
     private formattingStripper: FormattingStripper;
 
@@ -31,18 +54,63 @@ export default class SubtitleProcessor {
         inputFilePath: string,
         outputFilePath?: string,
         options: IConvertOptions = {},
-    ): Promise<{ outputPath: string; backupPath?: string }> {
+    ): Promise<{ outputPath: string; backupPath?: string; decodeQuality: IDecodeQuality }> {
         let backupPath: string | undefined;
 
         try {
             // Validate input file exists
             await fs.access(inputFilePath);
 
+            const outputEncoding = options.outputEncoding ?? 'utf8';
+
+            if (!EncodingConversionService.isSupported(outputEncoding)) {
+                throw new Error(`Unknown output encoding "${outputEncoding}"`);
+            }
+
+            const rules = this.compileReplaceRules(options);
+
+            // Process content
+            let utf8Content = await this.decodeInput(inputFilePath, options);
+            const decodeQuality = this.checkDecodeQuality(inputFilePath, utf8Content, options);
+
+            // Strip any existing BOM to prevent double BOM when adding a new one
+            if (utf8Content.charCodeAt(0) === 0xfeff) {
+                utf8Content = utf8Content.slice(1);
+            }
+
+            if (options.fixMojibake) {
+                utf8Content = this.fixMojibake(inputFilePath, utf8Content);
+            }
+
+            const format = FormatRegistry.resolveInputFormat(inputFilePath, options.inputFormat, utf8Content);
+
+            const misnamed = !FormatRegistry.matchesExtension(inputFilePath, format);
+
+            if (misnamed) {
+                const named = path.extname(inputFilePath).substring(1).toUpperCase();
+
+                console.log(
+                    `⚠️ ${path.basename(inputFilePath)} looks like ${format.toUpperCase()}, not ${named}; reading it as ${format.toUpperCase()}`,
+                );
+            }
+
+            const requestedFormat = FormatRegistry.resolveOutputFormat(inputFilePath, format, options.outputFormat);
+            const outputFormat = requestedFormat ?? format;
+
+            if (!FormatRegistry.canWrite(outputFormat)) {
+                throw new Error(`No writer for output format "${outputFormat}"`);
+            }
+
             // Determine output strategy
             const outputStrategy = options.overwriteInput ? new OverwriteOutputStrategy() : new SuffixOutputStrategy();
 
-            // Determine final output path
-            const finalOutputPath = outputFilePath || outputStrategy.getOutputPath(inputFilePath);
+            // Determine final output path; a format change also changes the extension
+            const defaultOutputPath = outputStrategy.getOutputPath(inputFilePath, requestedFormat);
+            const finalOutputPath =
+                outputFilePath ||
+                (options.outputDir
+                    ? path.join(options.outputDir, path.basename(defaultOutputPath))
+                    : defaultOutputPath);
 
             // Check if we need to create a backup
             // Respect user's createBackup config even when overwriting input
@@ -55,52 +123,85 @@ export default class SubtitleProcessor {
             // Handle existing output file
             await this.handleExistingFile(finalOutputPath, options);
 
-            // Process content
-            const detectedEncoding = await EncodingDetectionService.detectEncoding(inputFilePath);
-            const fileBuffer = await fs.readFile(inputFilePath);
-            let utf8Content = EncodingConversionService.convertToUtf8(fileBuffer, detectedEncoding);
-
-            // Strip any existing BOM to prevent double BOM when adding a new one
-            if (utf8Content.charCodeAt(0) === 0xfeff) {
-                utf8Content = utf8Content.slice(1);
-            }
+            const formatOptions = { fps: options.fps, language: options.language };
+            const handler = FormatRegistry.create(format, formatOptions);
 
             // Auto-recover corrupted timestamps (from previous punctuation stripping bug)
             // This fixes files where "00:00:00,039 --> 00:00:35,039" became "000000039  000035039"
-            if (this.hasCorruptedTimestamps(utf8Content)) {
+            if (format === 'srt' && this.hasCorruptedTimestamps(utf8Content)) {
                 console.log('⚠️ Detected corrupted timestamps, attempting recovery...');
                 utf8Content = this.recoverCorruptedTimestamps(utf8Content);
             }
 
-            // Convert inline line-break markers (<br>, ASS \N) to real newlines
-            // BEFORE stripping, so a stripped break can never glue two words
-            // together. Must run before the strip step (which would otherwise
-            // delete <br> outright) and before ensureProperLineBreaks.
-            utf8Content = this.normalizeHardLineBreaks(utf8Content);
-
-            if (options.strip) {
-                // Prevent corrupting SRT file structure by blocking dangerous strip options
-                // These options would destroy the SRT format completely
-                const safeStripOptions = {
-                    ...options.strip,
-                    timestamps: false, // NEVER strip timestamps - corrupts SRT structure
-                    numbers: false, // NEVER strip numbers - corrupts SRT sequence numbers
-                    punctuation: false, // NEVER strip punctuation - removes : , --> from timestamps
-                    brackets: false, // NEVER strip brackets - could affect subtitle structure
-                };
-
-                utf8Content = this.formattingStripper.stripFormatting(utf8Content, safeStripOptions);
+            // Parse into cues so every transformation below only ever sees cue
+            // text. Content we could not structure at all (no cues, no sections)
+            // goes through the same text transforms as a whole.
+            const document = handler.parse(utf8Content);
+
+            document.warnings.forEach((warning) => console.log(`⚠️ ${warning}`));
+
+            if (document.cues.length > 0 || document.sections?.length) {
+                const cueCount = document.cues.length;
+
+                // Cues that held only SDH annotations or text a rule removes go, and the rest are renumbered
+                const dropEmptied = Boolean(options.strip?.hearingImpaired) || rules.text.length > 0;
+                const kept: boolean[] = [];
+
+                document.cues = document.cues.filter((cue) => {
+                    const hadText = cue.lines.length > 0;
+
+                    this.transformCue(cue, options, rules.text);
+                    kept.push(cue.lines.length > 0 || !hadText || !dropEmptied);
+
+                    return kept[kept.length - 1];
+                });
+
+                const dropped = cueCount - document.cues.length;
+
+                if (dropped > 0) {
+                    document.cues.forEach((cue, index) => {
+                        cue.index = index + 1;
+                    });
+                    // Lines placed between cues (ASS comments) count only the cues still ahead of them
+                    document.sections?.forEach((section) => {
+                        section.positions = section.positions?.map(
+                            (position) => kept.slice(0, position).filter(Boolean).length,
+                        );
+                    });
+                    console.log(`🧹 Dropped ${dropped} cue${dropped > 1 ? 's' : ''} left empty`);
+                }
+
+                const conversion = FormatConverter.convert(document, outputFormat);
+
+                conversion.warnings.forEach((warning) => console.log(`⚠️ ${warning}`));
+                utf8Content = FormatRegistry.create(outputFormat, formatOptions).serialize(conversion.document);
+            } else if (outputFormat !== format) {
+                throw new Error(`No subtitle cues found to convert to ${outputFormat}`);
+            } else {
+                utf8Content = this.transformText(utf8Content, options, rules.text);
             }
 
-            utf8Content = this.ensureProperLineBreaks(utf8Content);
+            utf8Content = this.applyReplaceRules(utf8Content, rules.all);
 
             if (options.lineEndings) {
                 utf8Content = this.normalizeLineEndings(utf8Content, options.lineEndings);
             }
 
-            const finalContent = options.bom
-                ? Buffer.concat([UTF8_BOM, Buffer.from(utf8Content, 'utf8')])
-                : Buffer.from(utf8Content, 'utf8');
+            const { buffer: finalContent, unrepresentable } = EncodingConversionService.convertFromUtf8(
+                utf8Content,
+                outputEncoding,
+                { policy: options.unrepresentable, bom: options.bom },
+            );
+
+            if (unrepresentable.length > 0) {
+                const replaced = unrepresentable
+                    .slice(0, 5)
+                    .map((entry) => `"${entry.char}" as "${entry.replacement}" (line ${entry.line})`)
+                    .join(', ');
+                const more = unrepresentable.length > 5 ? ` and ${unrepresentable.length - 5} more` : '';
+
+                console.log(`⚠️ ${outputEncoding} cannot represent every character; wrote ${replaced}${more}`);
+            }
 
             // Write the processed content
             await fs.writeFile(finalOutputPath, finalContent);
@@ -108,6 +209,7 @@ export default class SubtitleProcessor {
             return {
                 outputPath: finalOutputPath,
                 backupPath,
+                decodeQuality,
             };
         } catch (error) {
             // If we created a backup but processing failed, try to restore it
@@ -128,6 +230,151 @@ export default class SubtitleProcessor {
         }
     }
 
+    /**
+     * Find the encoding the user pinned for a file: the first `encodingOverrides`
+     * pattern its path matches, else `encoding`
+     *
+     * Relative patterns match the path relative to the working directory, and
+     * patterns without a slash match the file name (`*.ar.srt`).
+     * @returns The encoding, or undefined when it should be detected
+     */
+    private resolveForcedEncoding(inputFilePath: string, options: IConvertOptions): string | undefined {
+        const absolutePath = path.resolve(inputFilePath);
+        const relativePath = path.relative(process.cwd(), absolutePath);
+        const override = Object.entries(options.encodingOverrides ?? {}).find(([pattern]) =>
+            minimatch((path.isAbsolute(pattern) ? absolutePath : relativePath).split(path.sep).join('/'), pattern, {
+                dot: true,
+                matchBase: !pattern.includes('/'),
+            }),
+        );
+        const encoding = override?.[1] ?? options.encoding;
+
+        if (!encoding || encoding === 'auto') return undefined;
+
+        if (!EncodingConversionService.isSupported(encoding)) {
+            throw new Error(`Unknown encoding "${encoding}"`);
+        }
+
+        return encoding;
+    }
+
+    /**
+     * Read the input as text, detecting its encoding as a whole or, under
+     * `mixedEncodings`, cue by cue and reporting the ranges read with each.
+     * Vietnamese files may turn out to be in a pre-Unicode font encoding.
+     * The file is read once, unless its content was passed in, and detection works on that buffer.
+     */
+    private async decodeInput(inputFilePath: string, options: IConvertOptions): Promise<string> {
+        const override = this.resolveForcedEncoding(inputFilePath, options);
+        const fileBuffer = options.input ?? (await fs.readFile(inputFilePath));
+
+        if (options.mixedEncodings && !override) {
+            const segments = EncodingDetectionService.detectEncodingSegmentsFromBuffer(fileBuffer, {
+                language: options.language,
+                sampleSize: options.detectionSampleSize,
+            });
+
+            if (segments.length > 1) {
+                const ranges = segments
+                    .map(({ encoding, firstCue, lastCue }) =>
+                        firstCue === lastCue
+                            ? `cue ${firstCue} ${encoding}`
+                            : `cues ${firstCue}-${lastCue} ${encoding}`,
+                    )
+                    .join(', ');
+
+                console.log(`🔀 Mixed encodings in ${path.basename(inputFilePath)}: ${ranges}`);
+            }
+
+            return segments
+                .map((segment) =>
+                    EncodingConversionService.convertToUtf8(
+                        fileBuffer.subarray(segment.start, segment.end),
+                        segment.encoding,
+                    ),
+                )
+                .join('');
+        }
+
+        const detection =
+            (!override && options.detection) ||
+            EncodingDetectionService.detectEncodingFromBuffer(fileBuffer, {
+                override,
+                language: options.language,
+                sampleSize: options.detectionSampleSize,
+            });
+
+        // Vietnamese font encodings pass for windows-1252, so only the language gives them away
+        const vietnamese =
+            detection.source === 'heuristic' && options.language?.toLowerCase().split(/[-_]/)[0] === 'vi'
+                ? VietnameseLegacyService.detect(fileBuffer, detection.encoding)
+                : null;
+
+        if (vietnamese) {
+            console.log(
+                `🔤 Read ${path.basename(inputFilePath)} as Vietnamese ${VIETNAMESE_ENCODING_NAMES[vietnamese]}, not ${detection.encoding}`,
+            );
+
+            return VietnameseLegacyService.decode(fileBuffer, vietnamese);
+        }
+
+        this.checkConfidence(inputFilePath, detection, options);
+
+        return EncodingConversionService.convertToUtf8(fileBuffer, detection.encoding);
+    }
+
+    /**
+     * Warn, or fail under `lowConfidence: 'fail'`, when detection is less sure than `minConfidence`
+     */
+    private checkConfidence(inputFilePath: string, detection: IEncodingDetection, options: IConvertOptions): void {
+        if (options.minConfidence === undefined || detection.confidence >= options.minConfidence) return;
+
+        const guesses = detection.candidates
+            .slice(0, 3)
+            .map((candidate) => `${candidate.encoding} (${Math.round(candidate.confidence * 100)}%)`)
+            .join(', ');
+        const message = `Unsure of the encoding of ${path.basename(inputFilePath)}: ${guesses || 'no guesses'}`;
+
+        if (options.lowConfidence === 'fail') {
+            throw new Error(`${message}; set the encoding explicitly to read it`);
+        }
+
+        console.log(`⚠️ ${message}; reading it as ${detection.encoding}`);
+    }
+
+    /**
+     * Warn (the default), or fail under `invalidBytes: 'fail'`, when decoding left
+     * invalid bytes or stray control characters
+     */
+    private checkDecodeQuality(inputFilePath: string, content: string, options: IConvertOptions): IDecodeQuality {
+        const quality = EncodingConversionService.assessDecoded(content);
+        const summary = EncodingConversionService.describeDecodeQuality(quality);
+
+        if (!summary || options.invalidBytes === 'ignore') return quality;
+
+        const message = `Lossy decode of ${path.basename(inputFilePath)}: ${summary}`;
+
+        if (options.invalidBytes === 'fail') {
+            throw new Error(`${message}; set the encoding explicitly or allow it with invalidBytes: warn`);
+        }
+
+        console.log(`⚠️ ${message}`);
+
+        return quality;
+    }
+
+    private fixMojibake(inputFilePath: string, content: string): string {
+        const repair = MojibakeRepairService.repair(content);
+
+        if (repair.rounds > 0) {
+            console.log(
+                `🔧 Repaired double-encoded text in ${path.basename(inputFilePath)}: ${repair.repairs} runs, undoing ${repair.codepages.join(' then ')}`,
+            );
+        }
+
+        return repair.text;
+    }
+
     private normalizeLineEndings(content: string, lineEnding: 'lf' | 'crlf' | 'auto'): string {
         return content.replace(/\r\n|\r|\n/g, LINE_ENDINGS[lineEnding]);
     }
@@ -143,9 +390,9 @@ export default class SubtitleProcessor {
      *
      * We also absorb at most one neighbouring newline on each side of the run so
      * that a marker hugging an existing newline (or a doubled <br><br>) never
-     * manufactures a blank line, which ensureProperLineBreaks() would otherwise
-     * mistake for a cue boundary. A genuine cue boundary keeps its second,
-     * un-absorbed newline and survives intact.
+     * manufactures a blank line, which would read as a cue boundary in
+     * unstructured content. A genuine cue boundary keeps its second, un-absorbed
+     * newline and survives intact.
      */
     private normalizeHardLineBreaks(content: string): string {
         const breakRun =
@@ -204,35 +451,77 @@ export default class SubtitleProcessor {
         }
     }
 
-    private ensureProperLineBreaks(content: string): string {
-        const blocks = content.split(/\n\s*\n/);
-
-        return blocks
-            .map((block) => {
-                const lines = block.split('\n');
-
-                if (lines.length < 2) return block; // Skip invalid blocks
-
-                // First line is the number
-                // Second line is the timestamp
-                // Rest are subtitle text that should be single-spaced
-                const number = lines[0].trim();
-                const timestamp = lines[1].trim();
-
-                // Filter out empty lines and join subtitle text with a single line break
-                // TV/Media players expect exactly one line break between subtitle lines
-                const subtitleText = lines
-                    .slice(2)
-                    .map((line) => line.trim())
-                    .filter((line) => line.length > 0)
-                    .join('\n');
-
-                // Ensure proper spacing:
-                // - One empty line between subtitle blocks (handled by join('\n\n') at the end)
-                // - No empty lines within a subtitle block
-                return `${number}\n${timestamp}\n${subtitleText}`;
-            })
-            .join('\n\n'); // Double line break between subtitle blocks is standard for SRT files
+    /**
+     * Apply text-level transformations to a single cue, keeping one line per
+     * physical subtitle line and dropping lines that end up empty.
+     */
+    private transformCue(cue: ICue, options: IConvertOptions, rules: TCompiledRule[]): void {
+        cue.lines = this.transformText(cue.lines.join('\n'), options, rules)
+            .split('\n')
+            .map((line) => line.trim())
+            .filter((line) => line.length > 0);
+    }
+
+    private transformText(text: string, options: IConvertOptions, rules: TCompiledRule[]): string {
+        // Convert inline line-break markers (<br>, ASS \N) to real newlines
+        // BEFORE stripping, so a stripped break can never glue two words
+        // together. Must run before the strip step (which would otherwise
+        // delete <br> outright).
+        let result = this.normalizeHardLineBreaks(text);
+
+        // Before anything that reads words, which all expect logical order
+        if (options.rtl?.visualOrder) {
+            result = RtlTextService.fixVisualOrder(result);
+        }
+
+        if (options.arabic) {
+            result = ArabicNormalizationService.normalize(result, options.arabic);
+        }
+
+        // Cue text only: sequence numbers and timings were parsed out, so every
+        // strip option is safe here
+        if (options.strip) {
+            result = this.formattingStripper.stripFormatting(result, options.strip);
+        }
+
+        result = this.applyReplaceRules(result, rules);
+
+        // Last, so bidi controls it adds survive bidiControl stripping
+        if (options.rtl) {
+            result = RtlTextService.fix(result, options.rtl);
+        }
+
+        return result;
+    }
+
+    /**
+     * Compile the replace rules that apply to the subtitle language, by scope
+     *
+     * Rules with a `language` are skipped when it is unknown or another one.
+     */
+    private compileReplaceRules(options: IConvertOptions): Record<TReplaceScope, TCompiledRule[]> {
+        const language = options.language?.toLowerCase().replace('_', '-');
+        const compiled: Record<TReplaceScope, TCompiledRule[]> = { text: [], all: [] };
+
+        for (const rule of options.replace ?? []) {
+            const ruleLanguage = rule.language?.toLowerCase().replace('_', '-');
+
+            if (ruleLanguage && language !== ruleLanguage && !language?.startsWith(`${ruleLanguage}-`)) continue;
+
+            const flags = rule.flags?.includes('g') ? rule.flags : `${rule.flags ?? ''}g`;
+
+            try {
+                compiled[rule.scope ?? 'text'].push([new RegExp(rule.pattern, flags), rule.replacement ?? '']);
+            } catch (error) {
+                throw new Error(`Invalid replace rule /${rule.pattern}/: ${(error as Error).message}`);
+            }
+        }
+
+        return compiled;
+    }
+
+    private applyReplaceRules(text: string, rules: TCompiledRule[]): string {
+        return rules.reduce((result, [pattern, replacement]) => result.replace(pattern, replacement), text);
     }
 
     /**
@@ -0,0 +1,250 @@
+import { Buffer } from 'buffer';
+
+import iconv from 'iconv-lite';
+
+import { TVietnameseEncoding } from '@subzilla/types';
+
+const GRAVE = '\u0300';
+const ACUTE = '\u0301';
+const TILDE = '\u0303';
+const HOOK = '\u0309';
+const DOT = '\u0323';
+const CIRCUMFLEX = '\u0302';
+const BREVE = '\u0306';
+
+const TONES = /[\u0300\u0301\u0303\u0309\u0323]/u;
+const TONES_ALL = new RegExp(TONES.source, 'gu');
+
+// A Vietnamese syllable without its tone: onset, one to three vowels, final consonant
+const SYLLABLE = /^(?:ngh|[cgknpt]h|gi|ng|qu|tr|[bcdđghklmnrstvx])?[aăâeêioôơuưy]{1,3}(?:ch|ng|nh|[cmnpt])?$/u;
+
+// TCVN3 (ABC) above ASCII. Its fonts draw capitals with a tone from a separate
+// font at the same bytes, so those read as lowercase.
+const TCVN3: Record<number, string> = {
+    0xa1: 'Ă',
+    0xa2: 'Â',
+    0xa3: 'Ê',
+    0xa4: 'Ô',
+    0xa5: 'Ơ',
+    0xa6: 'Ư',
+    0xa7: 'Đ',
+    0xa8: 'ă',
+    0xa9: 'â',
+    0xaa: 'ê',
+    0xab: 'ô',
+    0xac: 'ơ',
+    0xad: 'ư',
+    0xae: 'đ',
+    0xb5: 'à',
+    0xb6: 'ả',
+    0xb7: 'ã',
+    0xb8: 'á',
+    0xb9: 'ạ',
+    0xbb: 'ằ',
+    0xbc: 'ẳ',
+    0xbd: 'ẵ',
+    0xbe: 'ắ',
+    0xc6: 'ặ',
+    0xc7: 'ầ',
+    0xc8: 'ẩ',
+    0xc9: 'ẫ',
+    0xca: 'ấ',
+    0xcb: 'ậ',
+    0xcc: 'è',
+    0xce: 'ẻ',
+    0xcf: 'ẽ',
+    0xd0: 'é',
+    0xd1: 'ẹ',
+    0xd2: 'ề',
+    0xd3: 'ể',
+    0xd4: 'ễ',
+    0xd5: 'ế',
+    0xd6: 'ệ',
+    0xd7: 'ì',
+    0xd8: 'ỉ',
+    0xdc: 'ĩ',
+    0xdd: 'í',
+    0xde: 'ị',
+    0xdf: 'ò',
+    0xe1: 'ỏ',
+    0xe2: 'õ',
+    0xe3: 'ó',
+    0xe4: 'ọ',
+    0xe5: 'ồ',
+    0xe6: 'ổ',
+    0xe7: 'ỗ',
+    0xe8: 'ố',
+    0xe9: 'ộ',
+    0xea: 'ờ',
+    0xeb: 'ở',
+    0xec: 'ỡ',
+    0xed: 'ớ',
+    0xee: 'ợ',
+    0xef: 'ù',
+    0xf1: 'ủ',
+    0xf2: 'ũ',
+    0xf3: 'ú',
+    0xf4: 'ụ',
+    0xf5: 'ừ',
+    0xf6: 'ử',
+    0xf7: 'ữ',
+    0xf8: 'ứ',
+    0xf9: 'ự',
+    0xfa: 'ỳ',
+    0xfb: 'ỷ',
+    0xfc: 'ỹ',
+    0xfd: 'ý',
+    0xfe: 'ỵ',
+};
+
+// VNI marks, typed after the vowel they sit on; capitals use the byte 0x20 lower ("Vieät" is "Việt")
+const VNI_MARKS: Record<number, string> = {
+    0xe2: CIRCUMFLEX,
+    0xea: BREVE,
+    0xf9: ACUTE,
+    0xf8: GRAVE,
+    0xfb: HOOK,
+    0xf5: TILDE,
+    0xef: DOT,
+    0xe1: CIRCUMFLEX + ACUTE,
+    0xe0: CIRCUMFLEX + GRAVE,
+    0xe5: CIRCUMFLEX + HOOK,
+    0xe3: CIRCUMFLEX + TILDE,
+    0xe4: CIRCUMFLEX + DOT,
+    0xe9: BREVE + ACUTE,
+    0xe8: BREVE + GRAVE,
+    0xfa: BREVE + HOOK,
+    0xfc: BREVE + TILDE,
+    0xeb: BREVE + DOT,
+};
+
+// VNI letters with a byte of their own, lowercase; capitals again 0x20 lower
+const VNI_LETTERS: Record<number, string> = {
+    0xf4: 'ơ',
+    0xf6: 'ư',
+    0xf1: 'đ',
+    0xed: 'í',
+    0xec: 'ì',
+    0xe6: 'ỉ',
+    0xf3: 'ĩ',
+    0xf2: 'ị',
+    0xee: 'ỵ',
+};
+
+/**
+ * Reads Vietnamese text typed with the VNI and TCVN3 (ABC) font encodings of
+ * the 1990s, which predate Unicode and look like valid windows-1252
+ *
+ * Nothing in the bytes marks them, so each reading (the detected codepage,
+ * windows-1258, VNI and TCVN3) is scored by how many of its words are
+ * syllables Vietnamese can spell, and the best one wins.
+ */
+export default class VietnameseLegacyService {
+    private static readonly ENCODINGS: TVietnameseEncoding[] = ['windows-1258', 'vni', 'tcvn3'];
+
+    // windows-1252 for bytes the font encodings leave alone
+    private static readonly FALLBACK = iconv.decode(
+        Buffer.from(Array.from({ length: 256 }, (_, byte) => byte)),
+        'windows-1252',
+    );
+
+    /**
+     * Find the Vietnamese encoding that reads better than the detected one
+     * @param data The file content
+     * @param detected The encoding detection settled on
+     * @returns The encoding, or null when the detected one reads at least as well
+     */
+    public static detect(data: Buffer, detected: string): TVietnameseEncoding | null {
+        if (data.every((byte) => byte < 0x80)) return null;
+
+        let best: TVietnameseEncoding | null = null;
+        // Only switch to a reading that is mostly Vietnamese
+        let bestScore = Math.max(this.score(iconv.decode(data, detected)), 0);
+
+        for (const encoding of this.ENCODINGS) {
+            const score = this.score(this.decode(data, encoding));
+
+            if (score > bestScore) {
+                best = encoding;
+                bestScore = score;
+            }
+        }
+
+        return best;
+    }
+
+    /**
+     * Decode to Unicode Vietnamese, with tones composed onto their letters
+     */
+    public static decode(data: Buffer, encoding: TVietnameseEncoding): string {
+        if (encoding === 'vni') return this.decodeVni(data);
+
+        if (encoding === 'tcvn3') {
+            return Array.from(data, (byte) => TCVN3[byte] ?? this.FALLBACK[byte]).join('');
+        }
+
+        // windows-1258 writes tones as combining marks after the letter
+        return iconv.decode(data, encoding).normalize('NFC');
+    }
+
+    private static decodeVni(data: Buffer): string {
+        const chars: string[] = [];
+
+        for (const byte of data) {
+            // Fold capitals' bytes onto the lowercase ones
+            const lower = byte >= 0xc0 ? byte | 0x20 : byte;
+            const marks = VNI_MARKS[lower];
+            const letter = VNI_LETTERS[lower];
+            const previous = chars[chars.length - 1] ?? '';
+            const marked = marks && (previous + marks).normalize('NFC');
+
+            if (marked && marked.length === 1 && !TONES.test(previous.normalize('NFD'))) {
+                chars[chars.length - 1] = marked;
+            } else if (letter) {
+                chars.push(lower === byte ? letter : letter.toUpperCase());
+            } else {
+                chars.push(this.FALLBACK[byte]);
+            }
+        }
+
+        return chars.join('');
+    }
+
+    /**
+     * Share of the non-ASCII letters that make sense as Vietnamese: in syllables
+     * Vietnamese can spell, with at most one tone and sensible capitals. Other
+     * symbols count against; punctuation and spaces do not count.
+     * @returns -1 to 1
+     */
+    private static score(text: string): number {
+        let total = 0;
+        let score = 0;
+
+        for (const [token] of text.matchAll(/\p{L}+|\P{ASCII}/gu)) {
+            if (!/\p{L}/u.test(token)) {
+                if (!/[\p{P}\p{Zs}]/u.test(token)) {
+                    total++;
+                    score--;
+                }
+
+                continue;
+            }
+
+            const rest = token.slice(1);
+            const wellFormed = token === token.toUpperCase() || rest === rest.toLowerCase();
+            const decomposed = token.toLowerCase().normalize('NFD');
+            const toneless = decomposed.replace(TONES_ALL, '').normalize('NFC');
+            const tones = decomposed.length - decomposed.replace(TONES_ALL, '').length;
+            const valid = wellFormed && tones <= 1 && SYLLABLE.test(toneless);
+
+            for (const char of token) {
+                if (char.charCodeAt(0) < 0x80) continue;
+
+                total++;
+                score += valid ? 1 : -1;
+            }
+        }
+
+        return total > 0 ? score / total : 0;
+    }
+}
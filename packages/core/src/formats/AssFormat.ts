@@ -0,0 +1,272 @@
+import { ICue, ISubtitleDocument, ISubtitleSection } from '@subzilla/types';
+
+import BaseSubtitleFormat from './BaseSubtitleFormat';
+import Timecode from './Timecode';
+
+type TAssFamily = 'ass' | 'ssa';
+
+/**
+ * Advanced SubStation Alpha (.ass) and SubStation Alpha (.ssa) reader and writer
+ *
+ * Only the Text field of `Dialogue:` events becomes cue text. Every other part of
+ * the script — `[Script Info]`, the styles section, the `Format:` line, comments,
+ * fonts — is kept verbatim so a read/write round trip never touches it.
+ */
+export default class AssFormat extends BaseSubtitleFormat {
+    public readonly format: TAssFamily;
+
+    private static readonly EVENTS_SECTION = 'Events';
+
+    private static readonly DEFAULT_EVENT_FIELDS: Record<TAssFamily, string[]> = {
+        ass: ['Layer', 'Start', 'End', 'Style', 'Name', 'MarginL', 'MarginR', 'MarginV', 'Effect', 'Text'],
+        ssa: ['Marked', 'Start', 'End', 'Style', 'Name', 'MarginL', 'MarginR', 'MarginV', 'Effect', 'Text'],
+    };
+
+    // Used when the document did not come from an ASS/SSA file (e.g. SRT input)
+    private static readonly DEFAULT_SECTIONS: Record<TAssFamily, ISubtitleSection[]> = {
+        ass: [
+            {
+                name: 'Script Info',
+                lines: ['ScriptType: v4.00+', 'WrapStyle: 0', 'ScaledBorderAndShadow: yes'],
+            },
+            {
+                name: 'V4+ Styles',
+                lines: [
+                    'Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding',
+                    'Style: Default,Arial,20,&H00FFFFFF,&H000000FF,&H00000000,&H00000000,0,0,0,0,100,100,0,0,1,2,2,2,10,10,10,1',
+                ],
+            },
+        ],
+        ssa: [
+            {
+                name: 'Script Info',
+                lines: ['ScriptType: v4.00'],
+            },
+            {
+                name: 'V4 Styles',
+                lines: [
+                    'Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, TertiaryColour, BackColour, Bold, Italic, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, AlphaLevel, Encoding',
+                    'Style: Default,Arial,20,16777215,65535,65535,-2147483640,0,0,1,2,2,2,10,10,10,0,1',
+                ],
+            },
+        ],
+    };
+
+    private static readonly DEFAULT_FIELD_VALUES: Record<string, string> = {
+        Layer: '0',
+        Marked: 'Marked=0',
+        Style: 'Default',
+        MarginL: '0',
+        MarginR: '0',
+        MarginV: '0',
+    };
+
+    private sectionHeaderRegex = /^\s*\[([^\]]+)\]\s*$/;
+    private hardBreakRegex = /\\N/g;
+
+    constructor(format: TAssFamily = 'ass') {
+        super();
+        this.format = format;
+    }
+
+    public parse(content: string): ISubtitleDocument {
+        const cues: ICue[] = [];
+        const sections: ISubtitleSection[] = [];
+        const warnings: string[] = [];
+        let section: ISubtitleSection | null = null;
+        let eventFields = AssFormat.DEFAULT_EVENT_FIELDS[this.format];
+
+        this.splitLines(content).forEach((line, lineNumber) => {
+            const header = line.match(this.sectionHeaderRegex);
+
+            if (header) {
+                section = { name: header[1].trim(), lines: [] };
+
+                if (this.isEventsSection(section)) {
+                    section.positions = [];
+                }
+
+                sections.push(section);
+
+                return;
+            }
+
+            if (!section) {
+                if (line.trim()) {
+                    warnings.push(`Line ${lineNumber + 1}: skipped text outside of any section`);
+                }
+
+                return;
+            }
+
+            if (!this.isEventsSection(section)) {
+                section.lines.push(line);
+
+                return;
+            }
+
+            const [key, value] = this.splitEntry(line);
+
+            if (key === 'Format') {
+                eventFields = value.split(',').map((field) => field.trim());
+            }
+
+            // Blank lines between events carry no meaning; other events keep their place among the cues
+            if (key !== 'Dialogue') {
+                if (line.trim()) {
+                    this.pushEvent(section, line, cues.length);
+                }
+
+                return;
+            }
+
+            const cue = this.parseDialogue(value, eventFields, cues.length + 1);
+
+            if (cue) {
+                cues.push(cue);
+            } else {
+                warnings.push(`Line ${lineNumber + 1}: unreadable Dialogue event, kept as-is`);
+                this.pushEvent(section, line, cues.length);
+            }
+        });
+
+        sections.forEach((current) => this.trimTrailingBlankLines(current.lines));
+
+        if (!sections.some((current) => this.isEventsSection(current))) {
+            warnings.push('No [Events] section found');
+        }
+
+        return { format: this.format, cues, sections, warnings };
+    }
+
+    public serialize(document: ISubtitleDocument): string {
+        const fromScript = document.format === 'ass' || document.format === 'ssa';
+        const sections = fromScript && document.sections?.length ? [...document.sections] : this.defaultSections();
+
+        if (!sections.some((section) => this.isEventsSection(section))) {
+            sections.push({ name: AssFormat.EVENTS_SECTION, lines: [] });
+        }
+
+        const blocks = sections.map((section) => {
+            if (!this.isEventsSection(section)) {
+                return [`[${section.name}]`, ...section.lines].join('\n');
+            }
+
+            const lines = [`[${section.name}]`];
+            const formatLine = section.lines.find((line) => this.splitEntry(line)[0] === 'Format');
+            const eventFields = formatLine
+                ? this.splitEntry(formatLine)[1]
+                      .split(',')
+                      .map((field) => field.trim())
+                : AssFormat.DEFAULT_EVENT_FIELDS[this.format];
+            let next = 0;
+
+            if (!formatLine) {
+                lines.push(`Format: ${eventFields.join(', ')}`);
+            }
+
+            // Write each kept event back in front of the cue that followed it
+            const writeEventsBefore = (cueCount: number): void => {
+                while (next < section.lines.length && (section.positions?.[next] ?? 0) <= cueCount) {
+                    lines.push(section.lines[next++]);
+                }
+            };
+
+            document.cues.forEach((cue, position) => {
+                writeEventsBefore(position);
+                lines.push(this.serializeDialogue(cue, eventFields));
+            });
+            lines.push(...section.lines.slice(next));
+
+            return lines.join('\n');
+        });
+
+        return `${blocks.join('\n\n')}\n`;
+    }
+
+    private parseDialogue(value: string, eventFields: string[], index: number): ICue | null {
+        const parts = value.split(',');
+
+        if (parts.length < eventFields.length) return null;
+
+        // Text is always the last field and may itself contain commas
+        const textPosition = eventFields.indexOf('Text');
+        const values = [...parts.slice(0, eventFields.length - 1), parts.slice(eventFields.length - 1).join(',')];
+        const fields: Record<string, string> = {};
+
+        eventFields.forEach((name, position) => {
+            if (name !== 'Start' && name !== 'End' && name !== 'Text') {
+                fields[name] = values[position].trim();
+            }
+        });
+
+        const start = Timecode.parseClock(values[eventFields.indexOf('Start')] ?? '');
+        const end = Timecode.parseClock(values[eventFields.indexOf('End')] ?? '');
+
+        if (start === null || end === null || textPosition === -1) return null;
+
+        const text = values[textPosition];
+        const lines = text === '' ? [] : text.split(this.hardBreakRegex);
+        const cue = this.createCue(index, start, end, lines);
+
+        cue.fields = fields;
+
+        if (fields.Name) {
+            cue.voice = fields.Name;
+        }
+
+        return cue;
+    }
+
+    private serializeDialogue(cue: ICue, eventFields: string[]): string {
+        const values = eventFields.map((name) => {
+            switch (name) {
+                case 'Start':
+                    return Timecode.formatClock(cue.start, '.', 2, 1);
+                case 'End':
+                    return Timecode.formatClock(cue.end, '.', 2, 1);
+                case 'Text':
+                    return cue.lines.join('\\N');
+                case 'Name':
+                    return cue.fields?.Name ?? cue.voice ?? '';
+                default:
+                    return cue.fields?.[name] ?? AssFormat.DEFAULT_FIELD_VALUES[name] ?? '';
+            }
+        });
+
+        return `Dialogue: ${values.join(',')}`;
+    }
+
+    /**
+     * Split a "Key: value" line into its key and value
+     */
+    private splitEntry(line: string): [string, string] {
+        const separator = line.indexOf(':');
+
+        if (separator === -1) return ['', line];
+
+        return [line.substring(0, separator).trim(), line.substring(separator + 1).trimStart()];
+    }
+
+    /**
+     * Keep a non-dialogue event along with the number of cues read before it
+     */
+    private pushEvent(section: ISubtitleSection, line: string, cueCount: number): void {
+        section.lines.push(line);
+        section.positions?.push(cueCount);
+    }
+
+    private isEventsSection(section: ISubtitleSection): boolean {
+        return section.name.toLowerCase() === AssFormat.EVENTS_SECTION.toLowerCase();
+    }
+
+    private trimTrailingBlankLines(lines: string[]): void {
+        while (lines.length > 0 && lines[lines.length - 1].trim() === '') {
+            lines.pop();
+        }
+    }
+
+    private defaultSections(): ISubtitleSection[] {
+        return AssFormat.DEFAULT_SECTIONS[this.format].map((section) => ({ ...section, lines: [...section.lines] }));
+    }
+}
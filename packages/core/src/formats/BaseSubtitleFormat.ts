@@ -0,0 +1,94 @@
+import { ICue, ISubtitleDocument, ISubtitleFormatHandler, TSubtitleFormat } from '@subzilla/types';
+
+/**
+ * Base class for subtitle format handlers
+ */
+export default abstract class BaseSubtitleFormat implements ISubtitleFormatHandler {
+    public abstract readonly format: TSubtitleFormat;
+
+    // Named character references understood by the markup-based formats
+    private static readonly ENTITIES: Record<string, string> = {
+        nbsp: ' ',
+        amp: '&',
+        lt: '<',
+        gt: '>',
+        quot: '"',
+        apos: "'",
+    };
+
+    // HTML-like tags (<i>, <font color="red">) and ASS override blocks ({\an8})
+    private inlineTagRegex = /<[^>]+>|\{[^}]*\}/g;
+    private entityRegex = /&(#x[0-9a-f]+|#\d+|[a-z]+);/gi;
+
+    public abstract parse(content: string): ISubtitleDocument;
+
+    public abstract serialize(document: ISubtitleDocument): string;
+
+    /**
+     * Split content into physical lines, dropping a leading BOM and accepting any line ending
+     */
+    protected splitLines(content: string): string[] {
+        return content.replace(/^\uFEFF/, '').split(/\r\n|\r|\n/);
+    }
+
+    /**
+     * Build a cue from its timing and text lines
+     */
+    protected createCue(index: number, start: number, end: number, lines: string[]): ICue {
+        return {
+            index,
+            start,
+            end,
+            lines,
+            tags: this.extractTags(lines),
+        };
+    }
+
+    protected extractTags(lines: string[]): string[] {
+        return lines.flatMap((line) => line.match(this.inlineTagRegex) ?? []);
+    }
+
+    /**
+     * Replace `&amp;`-style and numeric character references with the characters they stand for
+     */
+    protected decodeEntities(text: string): string {
+        return text.replace(this.entityRegex, (entity, name: string) => {
+            if (name.startsWith('#')) {
+                const hex = name[1] === 'x' || name[1] === 'X';
+                const code = hex ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+
+                return code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+            }
+
+            return BaseSubtitleFormat.ENTITIES[name.toLowerCase()] ?? entity;
+        });
+    }
+
+    /**
+     * Parse whitespace-separated `key:value` pairs written after a timing line
+     * @returns The settings, or undefined when there are none
+     */
+    protected parseSettings(raw: string | undefined): Record<string, string> | undefined {
+        if (!raw) return undefined;
+
+        const settings: Record<string, string> = {};
+
+        for (const pair of raw.trim().split(/\s+/)) {
+            const separator = pair.indexOf(':');
+
+            if (separator > 0) {
+                settings[pair.substring(0, separator)] = pair.substring(separator + 1);
+            }
+        }
+
+        return Object.keys(settings).length > 0 ? settings : undefined;
+    }
+
+    protected serializeSettings(settings: Record<string, string> | undefined): string {
+        if (!settings) return '';
+
+        return Object.entries(settings)
+            .map(([key, value]) => `${key}:${value}`)
+            .join(' ');
+    }
+}
@@ -0,0 +1,407 @@
+import { ICue, IFormatConversion, ISubtitleDocument, ISubtitleSection, TSubtitleFormat } from '@subzilla/types';
+
+type TLoss = 'positions' | 'styles' | 'speakers' | 'identifiers' | 'markup';
+
+/**
+ * Carries a parsed document over to another format
+ *
+ * Timing and text always survive. Everything else is best effort: inline markup
+ * is translated where the target has an equivalent (`<i>` <-> `{\i1}`) and
+ * dropped where it does not, and each kind of loss is reported once, with the
+ * number of cues it affected.
+ */
+export default class FormatConverter {
+    private static readonly ASS_FAMILY: TSubtitleFormat[] = ['ass', 'ssa'];
+
+    // HTML-like tags each format displays; anything else is removed on the way in
+    private static readonly HTML_TAGS: Record<TSubtitleFormat, string[]> = {
+        srt: ['i', 'b', 'u', 's', 'font'],
+        sub: ['i', 'b', 'u', 's', 'font'],
+        vtt: ['i', 'b', 'u', 'c', 'v', 'lang', 'ruby', 'rt'],
+        ttml: ['i', 'b', 'u', 's', 'font'],
+        ass: [],
+        ssa: [],
+        txt: [],
+        // Read-only formats, never a conversion target
+        subviewer: [],
+        smi: [],
+    };
+
+    // Style fields of each SubStation version, in their standard order
+    private static readonly STYLE_FIELDS: Record<'ass' | 'ssa', string[]> = {
+        ass: [
+            'Name',
+            'Fontname',
+            'Fontsize',
+            'PrimaryColour',
+            'SecondaryColour',
+            'OutlineColour',
+            'BackColour',
+            'Bold',
+            'Italic',
+            'Underline',
+            'StrikeOut',
+            'ScaleX',
+            'ScaleY',
+            'Spacing',
+            'Angle',
+            'BorderStyle',
+            'Outline',
+            'Shadow',
+            'Alignment',
+            'MarginL',
+            'MarginR',
+            'MarginV',
+            'Encoding',
+        ],
+        ssa: [
+            'Name',
+            'Fontname',
+            'Fontsize',
+            'PrimaryColour',
+            'SecondaryColour',
+            'TertiaryColour',
+            'BackColour',
+            'Bold',
+            'Italic',
+            'BorderStyle',
+            'Outline',
+            'Shadow',
+            'Alignment',
+            'MarginL',
+            'MarginR',
+            'MarginV',
+            'AlphaLevel',
+            'Encoding',
+        ],
+    };
+
+    // Values of the style fields only one version has, when a style does not use them
+    private static readonly STYLE_DEFAULTS: Record<string, string> = {
+        Underline: '0',
+        StrikeOut: '0',
+        ScaleX: '100',
+        ScaleY: '100',
+        Spacing: '0',
+        Angle: '0',
+        AlphaLevel: '0',
+    };
+
+    // ASS aligns like a numpad; SSA uses 1-3 along the bottom, plus 4 for the top and 8 for the middle
+    private static readonly SSA_ALIGNMENT: Record<string, string> = {
+        1: '1',
+        2: '2',
+        3: '3',
+        7: '5',
+        8: '6',
+        9: '7',
+        4: '9',
+        5: '10',
+        6: '11',
+    };
+
+    // Emphasis tags that have an ASS override equivalent
+    private static readonly EMPHASIS = ['i', 'b', 'u', 's'];
+
+    private static readonly LOSS_MESSAGES: Record<TLoss, (count: number, target: string) => string> = {
+        positions: (count) => `Positioning of ${count} cue(s) was dropped`,
+        styles: (count) => `Style and layout fields of ${count} cue(s) were dropped`,
+        speakers: (count) => `Speaker names of ${count} cue(s) were dropped`,
+        identifiers: (count) => `Identifiers of ${count} cue(s) were dropped`,
+        markup: (count, target) => `Formatting ${target} cannot show was removed from ${count} cue(s)`,
+    };
+
+    private static overrideBlockRegex = /\{([^}]*)\}/g;
+    private static htmlTagRegex = /<(\/?)([a-zA-Z]+)[^>]*>|<\d[\d:.]*>/g;
+
+    /**
+     * Convert a document for writing in `target`
+     *
+     * Converting to the document's own format is a no-op. Between ASS and SSA the
+     * cues stay as they are, and the script header, styles and event layout are
+     * rewritten for the other version.
+     */
+    public static convert(document: ISubtitleDocument, target: TSubtitleFormat): IFormatConversion {
+        if (document.format === target) {
+            return { document, warnings: [] };
+        }
+
+        if (this.isAss(document.format) && this.isAss(target)) {
+            return this.convertScript(document, target);
+        }
+
+        const label = target.toUpperCase();
+        const counts = new Map<TLoss, number>();
+        const cues = document.cues.map((cue) => {
+            const lost = new Set<TLoss>();
+            const converted = this.convertCue(cue, document.format, target, lost);
+
+            lost.forEach((loss) => counts.set(loss, (counts.get(loss) ?? 0) + 1));
+
+            return converted;
+        });
+
+        const warnings: string[] = [];
+        const droppedSections = (document.sections ?? [])
+            .filter((section) => section.lines.some((line) => line.trim() && !/^Format\s*:/i.test(line)))
+            .map((section) => section.name);
+
+        if (droppedSections.length > 0) {
+            warnings.push(
+                `${label} has no place for these sections, which were dropped: ${droppedSections.join(', ')}`,
+            );
+        }
+
+        counts.forEach((count, loss) => warnings.push(this.LOSS_MESSAGES[loss](count, label)));
+
+        return {
+            document: { format: target, cues, warnings: document.warnings },
+            warnings,
+        };
+    }
+
+    /**
+     * Rewrite an ASS script as SSA or the other way round
+     */
+    private static convertScript(document: ISubtitleDocument, target: TSubtitleFormat): IFormatConversion {
+        const ssa = target === 'ssa';
+        const [layerField, targetLayerField] = ssa ? ['Layer', 'Marked'] : ['Marked', 'Layer'];
+        const droppedStyleFields = new Set<string>();
+        const sections = document.sections?.map((section): ISubtitleSection => {
+            if (/^script info$/i.test(section.name)) {
+                return { ...section, lines: this.setScriptType(section.lines, ssa ? 'v4.00' : 'v4.00+') };
+            }
+
+            if (/^v4\+? styles$/i.test(section.name)) {
+                return {
+                    name: ssa ? 'V4 Styles' : 'V4+ Styles',
+                    lines: this.convertStyles(section.lines, ssa, droppedStyleFields),
+                };
+            }
+
+            if (/^events$/i.test(section.name)) {
+                return { ...section, lines: this.convertEvents(section.lines, layerField, targetLayerField, ssa) };
+            }
+
+            return section;
+        });
+        let layered = 0;
+        const cues = document.cues.map((cue) => {
+            if (!cue.fields || !(layerField in cue.fields)) return cue;
+
+            const { [layerField]: layer, ...fields } = cue.fields;
+
+            // SSA has no layers, so stacked ASS events lose their order
+            if (ssa && !/^0*$/.test(layer)) layered++;
+
+            return { ...cue, fields };
+        });
+        const label = target.toUpperCase();
+        const warnings: string[] = [];
+
+        if (droppedStyleFields.size > 0) {
+            warnings.push(`${label} styles have no ${[...droppedStyleFields].join(', ')}; those settings were dropped`);
+        }
+
+        if (layered > 0) {
+            warnings.push(this.LOSS_MESSAGES.styles(layered, label));
+        }
+
+        return { document: { ...document, format: target, sections, cues }, warnings };
+    }
+
+    private static setScriptType(lines: string[], scriptType: string): string[] {
+        const position = lines.findIndex((line) => /^\s*ScriptType\s*:/i.test(line));
+
+        if (position === -1) return [`ScriptType: ${scriptType}`, ...lines];
+
+        return lines.map((line, index) => (index === position ? `ScriptType: ${scriptType}` : line));
+    }
+
+    private static convertStyles(lines: string[], ssa: boolean, dropped: Set<string>): string[] {
+        const targetFields = this.STYLE_FIELDS[ssa ? 'ssa' : 'ass'];
+        let sourceFields = this.STYLE_FIELDS[ssa ? 'ass' : 'ssa'];
+
+        return lines.map((line) => {
+            const [key, value] = this.splitEntry(line);
+
+            if (key === 'Format') {
+                sourceFields = value.split(',').map((field) => field.trim());
+
+                return `Format: ${targetFields.join(', ')}`;
+            }
+
+            if (key !== 'Style') return line;
+
+            const parts = value.split(',').map((part) => part.trim());
+            const values: Record<string, string> = Object.fromEntries(
+                sourceFields.map((field, position) => [field, parts[position] ?? '']),
+            );
+
+            sourceFields
+                .filter((field) => !targetFields.includes(field) && !/Colour$/.test(field))
+                .filter((field) => values[field] !== this.STYLE_DEFAULTS[field])
+                .forEach((field) => dropped.add(field));
+
+            return `Style: ${targetFields.map((field) => this.styleValue(field, values, ssa)).join(',')}`;
+        });
+    }
+
+    private static styleValue(field: string, values: Record<string, string>, ssa: boolean): string {
+        switch (field) {
+            case 'Alignment':
+                return ssa
+                    ? (this.SSA_ALIGNMENT[values.Alignment] ?? values.Alignment)
+                    : (Object.keys(this.SSA_ALIGNMENT).find((key) => this.SSA_ALIGNMENT[key] === values.Alignment) ??
+                          values.Alignment);
+            // The outline colour is what SSA calls the tertiary colour
+            case 'TertiaryColour':
+                return values.TertiaryColour ?? values.OutlineColour ?? '';
+            case 'OutlineColour':
+                return values.OutlineColour ?? values.TertiaryColour ?? '';
+            default:
+                return values[field] ?? this.STYLE_DEFAULTS[field] ?? '';
+        }
+    }
+
+    /**
+     * Rename the Layer/Marked field in the event Format line and reset it in the events kept verbatim
+     */
+    private static convertEvents(
+        lines: string[],
+        layerField: string,
+        targetLayerField: string,
+        ssa: boolean,
+    ): string[] {
+        const formatLine = lines.find((line) => this.splitEntry(line)[0] === 'Format');
+        const position = formatLine
+            ? this.splitEntry(formatLine)[1]
+                  .split(',')
+                  .map((field) => field.trim())
+                  .indexOf(layerField)
+            : -1;
+
+        return lines.map((line) => {
+            const [key, value] = this.splitEntry(line);
+
+            if (key === 'Format') {
+                return line.replace(new RegExp(`\\b${layerField}\\b`), targetLayerField);
+            }
+
+            if (!key || position === -1) return line;
+
+            const values = value.split(',');
+
+            values[position] = ssa ? 'Marked=0' : '0';
+
+            return `${key}: ${values.join(',')}`;
+        });
+    }
+
+    /**
+     * Split a "Key: value" line into its key and value
+     */
+    private static splitEntry(line: string): [string, string] {
+        const separator = line.indexOf(':');
+
+        if (separator === -1) return ['', line];
+
+        return [line.substring(0, separator).trim(), line.substring(separator + 1).trimStart()];
+    }
+
+    private static convertCue(cue: ICue, source: TSubtitleFormat, target: TSubtitleFormat, lost: Set<TLoss>): ICue {
+        let lines = cue.lines
+            .map((line) => this.convertMarkup(line, source, target, lost))
+            .filter((line) => line.trim().length > 0);
+
+        if (cue.voice) {
+            if (target === 'vtt' && lines.length > 0 && !lines.some((line) => /<v[\s.]/.test(line))) {
+                lines = [`<v ${cue.voice}>${lines[0]}`, ...lines.slice(1)];
+            } else if (target === 'srt' || target === 'ttml' || target === 'txt') {
+                lost.add('speakers');
+            }
+        }
+
+        if (cue.settings && Object.keys(cue.settings).length > 0) {
+            lost.add('positions');
+        }
+
+        if (cue.fields && Object.entries(cue.fields).some(([name, value]) => !this.isPlainField(name, value))) {
+            lost.add('styles');
+        }
+
+        if (target !== 'vtt' && cue.identifier && !/^\d+$/.test(cue.identifier)) {
+            lost.add('identifiers');
+        }
+
+        const converted: ICue = { ...cue, lines };
+
+        // Settings and fields only mean something in the format they came from
+        delete converted.settings;
+        delete converted.fields;
+
+        return converted;
+    }
+
+    private static convertMarkup(
+        line: string,
+        source: TSubtitleFormat,
+        target: TSubtitleFormat,
+        lost: Set<TLoss>,
+    ): string {
+        const allowed = this.HTML_TAGS[target];
+
+        // ASS override blocks ({\i1\an8}); other brace blocks are comments in ASS
+        // and literal text everywhere else
+        const withoutOverrides = line.replace(this.overrideBlockRegex, (block, body: string) => {
+            if (!body.startsWith('\\')) return this.isAss(source) ? '' : block;
+
+            return body
+                .split('\\')
+                .filter((code) => code.length > 0)
+                .map((code) => {
+                    const emphasis = code.match(/^([ibus])([01])$/);
+
+                    if (emphasis && allowed.includes(emphasis[1])) {
+                        return emphasis[2] === '1' ? `<${emphasis[1]}>` : `</${emphasis[1]}>`;
+                    }
+
+                    lost.add('markup');
+
+                    return '';
+                })
+                .join('');
+        });
+
+        return withoutOverrides.replace(this.htmlTagRegex, (tag, closing: string, name: string | undefined) => {
+            const tagName = name?.toLowerCase();
+
+            if (tagName && allowed.includes(tagName)) return tag;
+
+            if (tagName && this.isAss(target) && this.EMPHASIS.includes(tagName)) {
+                return `{\\${tagName}${closing ? 0 : 1}}`;
+            }
+
+            // Voice spans are reported as lost speakers, not as formatting
+            if (tagName !== 'v') {
+                lost.add('markup');
+            }
+
+            return '';
+        });
+    }
+
+    /**
+     * Whether a format-specific field holds only its default (nothing lost by dropping it)
+     */
+    private static isPlainField(name: string, value: string): boolean {
+        // TTML's text direction is implied by the text itself everywhere else
+        if (name === 'direction') return true;
+
+        return name === 'Name' || ['', 'Default', 'Marked=0'].includes(value) || /^0+$/.test(value);
+    }
+
+    private static isAss(format: TSubtitleFormat): boolean {
+        return this.ASS_FAMILY.includes(format);
+    }
+}
@@ -0,0 +1,141 @@
+import path from 'path';
+
+import { IFormatOptions, ISubtitleFormatHandler, TInputFormat, TOutputFormat, TSubtitleFormat } from '@subzilla/types';
+
+import AssFormat from './AssFormat';
+import FormatSniffer from './FormatSniffer';
+import MicroDvdFormat from './MicroDvdFormat';
+import SamiFormat from './SamiFormat';
+import SrtFormat from './SrtFormat';
+import SubViewerFormat from './SubViewerFormat';
+import TtmlFormat from './TtmlFormat';
+import TxtFormat from './TxtFormat';
+import VttFormat from './VttFormat';
+
+/**
+ * Maps format names and file extensions to format handlers
+ */
+export default class FormatRegistry {
+    private static readonly HANDLERS: Record<TSubtitleFormat, (options: IFormatOptions) => ISubtitleFormatHandler> = {
+        srt: () => new SrtFormat(),
+        sub: (options) => new MicroDvdFormat(options.fps),
+        subviewer: () => new SubViewerFormat(),
+        smi: (options) => new SamiFormat(options.language),
+        ass: () => new AssFormat('ass'),
+        ssa: () => new AssFormat('ssa'),
+        vtt: () => new VttFormat(),
+        ttml: (options) => new TtmlFormat(options.language),
+        txt: () => new TxtFormat(),
+    };
+
+    // Formats that have a reader but no writer
+    private static readonly READ_ONLY: TSubtitleFormat[] = ['subviewer', 'smi'];
+
+    // Formats that share an extension (`.sub`) or are variants of one another
+    private static readonly RELATED: TSubtitleFormat[][] = [
+        ['sub', 'subviewer'],
+        ['ass', 'ssa'],
+    ];
+
+    // `.txt` is deliberately absent: text files are read as SRT unless told otherwise
+    private static readonly EXTENSIONS: Record<string, TSubtitleFormat> = {
+        '.srt': 'srt',
+        '.sub': 'sub',
+        '.smi': 'smi',
+        '.sami': 'smi',
+        '.ass': 'ass',
+        '.ssa': 'ssa',
+        '.vtt': 'vtt',
+        '.ttml': 'ttml',
+        '.dfxp': 'ttml',
+    };
+
+    /**
+     * Create a handler for the given format
+     */
+    public static create(format: TSubtitleFormat, options: IFormatOptions = {}): ISubtitleFormatHandler {
+        return this.HANDLERS[format](options);
+    }
+
+    /**
+     * Check whether a format name has a reader
+     */
+    public static isSupported(format: string | undefined): format is TSubtitleFormat {
+        return format !== undefined && Object.prototype.hasOwnProperty.call(this.HANDLERS, format);
+    }
+
+    /**
+     * Check whether a format name has a writer
+     */
+    public static canWrite(format: string | undefined): format is TOutputFormat {
+        return this.isSupported(format) && !this.READ_ONLY.includes(format);
+    }
+
+    /**
+     * Look up the format for a file by its extension
+     * @returns The format, or null if the extension is unknown
+     */
+    public static fromPath(filePath: string): TSubtitleFormat | null {
+        return this.EXTENSIONS[path.extname(filePath).toLowerCase()] ?? null;
+    }
+
+    /**
+     * Whether a format is what the file's extension says, or the extension says nothing
+     */
+    public static matchesExtension(filePath: string, format: TSubtitleFormat): boolean {
+        const named = this.fromPath(filePath);
+
+        return named === null || named === format || this.isRelated(named, format);
+    }
+
+    /**
+     * Decide which reader to use for an input file
+     *
+     * An explicit `inputFormat` wins. With `auto`, content the sniffer is sure about
+     * decides, so `.txt` files holding SRT and misnamed files are read correctly;
+     * otherwise the file extension does, and anything we have no reader for is
+     * treated as SRT, which has always been the default.
+     */
+    public static resolveInputFormat(filePath: string, inputFormat?: TInputFormat, content?: string): TSubtitleFormat {
+        if (inputFormat && inputFormat !== 'auto') {
+            return this.isSupported(inputFormat) ? inputFormat : 'srt';
+        }
+
+        const named = this.fromPath(filePath);
+        const sniffed = content === undefined ? null : FormatSniffer.sniff(content);
+
+        if (!sniffed || sniffed.confidence < FormatSniffer.MIN_CONFIDENCE) {
+            return named ?? 'srt';
+        }
+
+        // ASS and SSA read the same; the extension picks which one gets written
+        if ((named === 'ass' || named === 'ssa') && this.isRelated(named, sniffed.format)) {
+            return named;
+        }
+
+        return sniffed.format;
+    }
+
+    /**
+     * Decide which format an input is written as when that changes its extension
+     *
+     * An explicit `outputFormat` wins. Formats we can only read (SAMI, SubViewer)
+     * are written as SRT, and misnamed files keep the format they really are.
+     * @returns The format to write, or undefined to keep the input's format and extension
+     */
+    public static resolveOutputFormat(
+        filePath: string,
+        format: TSubtitleFormat,
+        outputFormat?: TOutputFormat,
+    ): TOutputFormat | undefined {
+        if (outputFormat) return outputFormat;
+
+        if (!this.canWrite(format)) return 'srt';
+
+        return this.matchesExtension(filePath, format) ? undefined : format;
+    }
+
+    private static isRelated(first: TSubtitleFormat, second: TSubtitleFormat): boolean {
+        return this.RELATED.some((group) => group.includes(first) && group.includes(second));
+    }
+}
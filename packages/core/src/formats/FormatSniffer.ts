@@ -0,0 +1,156 @@
+import { Buffer } from 'buffer';
+import fs from 'fs/promises';
+
+import { IFormatSniffResult, TSubtitleFormat } from '@subzilla/types';
+
+/**
+ * Recognises subtitle formats from file content
+ *
+ * Each format has a signature - `WEBVTT`, `[Script Info]`, `<SAMI>`, `<tt`,
+ * `{1}{25}` frame cues, SubViewer or SRT timing lines - and the strongest match
+ * wins. Only the start of the content is looked at.
+ */
+export default class FormatSniffer {
+    // Matches below this are reported but not acted on
+    public static readonly MIN_CONFIDENCE = 0.8;
+
+    private static readonly SAMPLE_SIZE = 16 * 1024;
+
+    private static vttHeaderRegex = /^WEBVTT(?:[ \t]|$)/;
+    private static ttmlRootRegex = /<(?:[\w-]+:)?tt[\s>]/;
+    private static ttmlNamespaceRegex =
+        /xmlns(?::[\w-]+)?\s*=\s*["']http:\/\/www\.w3\.org\/(?:ns\/ttml|2006\/(?:04|10)\/ttaf1)/;
+    private static samiRegex = /<SAMI[\s>]/i;
+    private static syncRegex = /<SYNC\s+Start\s*=/i;
+    private static scriptInfoRegex = /^\s*\[Script Info\]\s*$/im;
+    private static ssaRegex = /^\s*(?:\[V4 Styles\]|ScriptType\s*:\s*v4\.00\s*$)/im;
+    private static dialogueRegex = /^\s*Dialogue\s*:\s*(?:\d|Marked)/im;
+    private static informationRegex = /^\s*\[INFORMATION\]\s*$/im;
+    private static subViewerTimingRegex = /^\s*\d{1,2}:\d{2}:\d{2}[.,]\d{1,3}\s*,\s*\d{1,2}:\d{2}:\d{2}[.,]\d{1,3}\s*$/;
+    private static frameCueRegex = /^\s*\{\d+\}\{\d*\}/;
+    private static srtTimingRegex = /^\s*\d{1,2}:\d{2}:\d{2}([,.])\d{1,3}\s*-->\s*\d{1,2}:\d{2}:\d{2}[,.]\d{1,3}/;
+
+    /**
+     * Recognise the format of decoded content
+     * @returns The best match, or null when the content looks like no subtitle format
+     */
+    public static sniff(content: string): IFormatSniffResult | null {
+        const sample = content.replace(/^\uFEFF/, '').substring(0, this.SAMPLE_SIZE);
+        const lines = sample.split(/\r\n|\r|\n/);
+        const matches = [
+            this.sniffVtt(lines),
+            this.sniffTtml(sample),
+            this.sniffSami(sample),
+            this.sniffAss(sample),
+            this.sniffSubViewer(sample, lines),
+            this.sniffMicroDvd(lines),
+            this.sniffSrt(lines),
+        ].filter((match): match is IFormatSniffResult => match !== null);
+
+        // Earlier checks are more specific, so they win ties
+        return matches.reduce<IFormatSniffResult | null>(
+            (best, match) => (!best || match.confidence > best.confidence ? match : best),
+            null,
+        );
+    }
+
+    /**
+     * Recognise the format of a file from its first bytes
+     *
+     * The signatures are all ASCII, so anything but UTF-16 can be read as Latin-1 without decoding it properly first.
+     */
+    public static async sniffFile(filePath: string): Promise<IFormatSniffResult | null> {
+        const handle = await fs.open(filePath, 'r');
+
+        try {
+            const buffer = Buffer.alloc(this.SAMPLE_SIZE);
+            const { bytesRead } = await handle.read(buffer, 0, this.SAMPLE_SIZE, 0);
+
+            return this.sniff(this.decodeSample(buffer.subarray(0, bytesRead)));
+        } finally {
+            await handle.close();
+        }
+    }
+
+    private static decodeSample(data: Buffer): string {
+        if (data.length >= 2 && data[0] === 0xff && data[1] === 0xfe) {
+            return data.subarray(2).toString('utf16le');
+        }
+
+        if (data.length >= 2 && data[0] === 0xfe && data[1] === 0xff) {
+            // Node has no UTF-16BE decoder; swap to little-endian first
+            const swapped = Buffer.from(data.subarray(2, data.length - (data.length % 2)));
+
+            return swapped.swap16().toString('utf16le');
+        }
+
+        return data.toString('latin1');
+    }
+
+    private static sniffVtt(lines: string[]): IFormatSniffResult | null {
+        const first = lines.find((line) => line.trim() !== '');
+
+        return first && this.vttHeaderRegex.test(first.trim()) ? this.result('vtt', 1) : null;
+    }
+
+    private static sniffTtml(sample: string): IFormatSniffResult | null {
+        if (!this.ttmlRootRegex.test(sample)) return null;
+
+        return this.result('ttml', this.ttmlNamespaceRegex.test(sample) ? 1 : 0.85);
+    }
+
+    private static sniffSami(sample: string): IFormatSniffResult | null {
+        if (this.samiRegex.test(sample)) return this.result('smi', 1);
+
+        return this.syncRegex.test(sample) ? this.result('smi', 0.85) : null;
+    }
+
+    private static sniffAss(sample: string): IFormatSniffResult | null {
+        const format = this.ssaRegex.test(sample) ? 'ssa' : 'ass';
+
+        if (this.scriptInfoRegex.test(sample)) return this.result(format, 1);
+
+        // Events without the headers, e.g. pasted from another file
+        return this.dialogueRegex.test(sample) ? this.result(format, 0.7) : null;
+    }
+
+    private static sniffSubViewer(sample: string, lines: string[]): IFormatSniffResult | null {
+        if (this.informationRegex.test(sample)) return this.result('subviewer', 1);
+
+        const timings = lines.filter((line) => this.subViewerTimingRegex.test(line)).length;
+
+        if (timings === 0) return null;
+
+        return this.result('subviewer', timings > 1 ? 0.9 : 0.8);
+    }
+
+    private static sniffMicroDvd(lines: string[]): IFormatSniffResult | null {
+        const text = lines.filter((line) => line.trim() !== '');
+        const cues = text.filter((line) => this.frameCueRegex.test(line)).length;
+
+        if (cues === 0) return null;
+
+        // Every line of a MicroDVD file is a cue
+        return this.result('sub', 0.95 * (cues / text.length));
+    }
+
+    private static sniffSrt(lines: string[]): IFormatSniffResult | null {
+        const timings = lines
+            .map((line, position) => ({ match: line.match(this.srtTimingRegex), position }))
+            .filter((entry) => entry.match !== null);
+
+        if (timings.length === 0) return null;
+
+        const commas = timings.filter((entry) => entry.match?.[1] === ',').length;
+        const numbered = timings.filter((entry) => /^\s*\d+\s*$/.test(lines[entry.position - 1] ?? '')).length;
+
+        // `.` in timings is also what headerless WebVTT looks like
+        const confidence = (commas * 2 >= timings.length ? 0.9 : 0.7) + (numbered * 2 >= timings.length ? 0.1 : 0);
+
+        return this.result('srt', confidence);
+    }
+
+    private static result(format: TSubtitleFormat, confidence: number): IFormatSniffResult {
+        return { format, confidence: Math.round(confidence * 100) / 100 };
+    }
+}
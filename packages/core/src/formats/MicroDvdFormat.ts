@@ -0,0 +1,258 @@
+import { ICue, ISubtitleDocument } from '@subzilla/types';
+
+import BaseSubtitleFormat from './BaseSubtitleFormat';
+
+interface IFrameEntry {
+    start: number;
+    end: number | null;
+    text: string;
+}
+
+/**
+ * MicroDVD (.sub) reader and writer
+ *
+ * Timings are frame numbers, converted with the frame rate passed in (`--fps`),
+ * else the `{1}{1}23.976` header line many files start with, else 23.976. `|`
+ * separates lines, and `{y:i}`/`{c:$BBGGRR}` codes become the same inline tags
+ * SRT uses, so the rest of the pipeline sees one kind of markup. Lowercase codes
+ * apply to their line, uppercase codes to the whole cue. Other control codes
+ * (font, size, position, charset) are kept on the cue and written back as-is.
+ */
+export default class MicroDvdFormat extends BaseSubtitleFormat {
+    public readonly format = 'sub' as const;
+
+    public static readonly DEFAULT_FPS = 23.976;
+
+    private static readonly STYLES = ['i', 'b', 'u', 's'];
+
+    private readonly fps?: number;
+
+    private cueRegex = /^\{(\d+)\}\{(\d*)\}(.*)$/;
+    private frameRateRegex = /^\d+(?:\.\d+)?$/;
+    private controlCodeRegex = /^\{([a-zA-Z]):([^}]*)\}/;
+    private colorRegex = /^\$?([0-9a-fA-F]{2})([0-9a-fA-F]{2})([0-9a-fA-F]{2})$/;
+
+    constructor(fps?: number) {
+        super();
+
+        if (fps !== undefined && !(fps > 0)) {
+            throw new Error(`Invalid frame rate: ${fps}`);
+        }
+
+        this.fps = fps;
+    }
+
+    public parse(content: string): ISubtitleDocument {
+        const entries: IFrameEntry[] = [];
+        const warnings: string[] = [];
+        let headerRate: number | undefined;
+
+        this.splitLines(content).forEach((line, lineNumber) => {
+            if (!line.trim()) return;
+
+            const match = line.trim().match(this.cueRegex);
+
+            if (!match) {
+                warnings.push(`Line ${lineNumber + 1}: not a MicroDVD cue, skipped`);
+
+                return;
+            }
+
+            const start = parseInt(match[1], 10);
+            const end = match[2] === '' ? null : parseInt(match[2], 10);
+            const text = match[3].trim();
+
+            // The header is a cue at frame 0 or 1 whose only text is the frame rate
+            if (entries.length === 0 && headerRate === undefined && start <= 1 && (end ?? 0) <= 1) {
+                if (this.frameRateRegex.test(text) && parseFloat(text) > 0) {
+                    headerRate = parseFloat(text);
+
+                    return;
+                }
+            }
+
+            entries.push({ start, end, text });
+        });
+
+        if (this.fps === undefined && headerRate === undefined && entries.length > 0) {
+            warnings.push(`No frame rate given or found in the file; assuming ${MicroDvdFormat.DEFAULT_FPS} fps`);
+        }
+
+        const frameRate = this.fps ?? headerRate ?? MicroDvdFormat.DEFAULT_FPS;
+        const cues = entries.map((entry, position) => {
+            // "{100}{}Text" lasts until the next cue starts
+            const endFrame = entry.end ?? entries[position + 1]?.start ?? entry.start;
+
+            return this.parseCue(entry, position + 1, endFrame, frameRate);
+        });
+
+        return { format: this.format, cues, frameRate, warnings };
+    }
+
+    public serialize(document: ISubtitleDocument): string {
+        if (document.cues.length === 0) return '';
+
+        const frameRate = this.fps ?? document.frameRate ?? MicroDvdFormat.DEFAULT_FPS;
+        const lines = document.cues.map((cue) => {
+            const timing = `{${this.toFrame(cue.start, frameRate)}}{${this.toFrame(cue.end, frameRate)}}`;
+
+            return `${timing}${this.serializeFields(cue.fields)}${this.serializeText(cue.lines)}`;
+        });
+
+        // Always state the frame rate so the file reads back at the same speed
+        return `${[`{1}{1}${frameRate}`, ...lines].join('\n')}\n`;
+    }
+
+    private parseCue(entry: IFrameEntry, index: number, endFrame: number, frameRate: number): ICue {
+        const fields: Record<string, string> = {};
+        const cueTags: string[] = [];
+
+        const lines = entry.text
+            .split('|')
+            .map((raw) => {
+                const lineTags: string[] = [];
+                let text = raw;
+                let code = text.match(this.controlCodeRegex);
+
+                while (code) {
+                    const [whole, key, value] = code;
+                    const tags = this.codeToTags(key.toLowerCase(), value);
+
+                    if (tags) {
+                        (key === key.toUpperCase() ? cueTags : lineTags).push(...tags);
+                    } else {
+                        fields[key] = value;
+                    }
+
+                    text = text.substring(whole.length);
+                    code = text.match(this.controlCodeRegex);
+                }
+
+                return { text: text.trim(), lineTags };
+            })
+            .filter((line) => line.text.length > 0)
+            .map((line) => this.wrap(line.text, [...cueTags, ...line.lineTags]));
+
+        const cue = this.createCue(
+            index,
+            this.toMilliseconds(entry.start, frameRate),
+            this.toMilliseconds(endFrame, frameRate),
+            lines,
+        );
+
+        // Keep the codes as they were written, not the tags they became
+        cue.tags = this.extractTags([entry.text]);
+
+        if (Object.keys(fields).length > 0) {
+            cue.fields = fields;
+        }
+
+        return cue;
+    }
+
+    /**
+     * Map a style or colour code to opening tags
+     * @returns The tags, or null for codes that have no inline-tag equivalent
+     */
+    private codeToTags(key: string, value: string): string[] | null {
+        if (key === 'y') {
+            return value
+                .toLowerCase()
+                .split('')
+                .filter((style) => MicroDvdFormat.STYLES.includes(style))
+                .map((style) => `<${style}>`);
+        }
+
+        const color = key === 'c' ? value.trim().match(this.colorRegex) : null;
+
+        if (color) {
+            // MicroDVD colours are $BBGGRR
+            return [`<font color="#${color[3]}${color[2]}${color[1]}">`.toLowerCase()];
+        }
+
+        return null;
+    }
+
+    private serializeText(lines: string[]): string {
+        const encoded = lines.map((line) => this.lineToCodes(line));
+        const sameCodes = encoded.length > 1 && encoded.every((line) => line.codes === encoded[0].codes);
+
+        // Codes shared by every line are written once, uppercase, for the whole cue
+        if (sameCodes && encoded[0].codes) {
+            const cueCodes = encoded[0].codes.replace(/\{([a-z]):/g, (_, key: string) => `{${key.toUpperCase()}:`);
+
+            return `${cueCodes}${encoded.map((line) => line.text).join('|')}`;
+        }
+
+        return encoded.map((line) => `${line.codes}${line.text}`).join('|');
+    }
+
+    /**
+     * Turn tags wrapping a whole line into codes; anything narrower cannot be shown and is dropped
+     */
+    private lineToCodes(line: string): { codes: string; text: string } {
+        const styles: string[] = [];
+        let color: string | undefined;
+        let text = line.trim();
+        let wrapped = this.unwrap(text);
+
+        while (wrapped) {
+            if (wrapped.name === 'font') {
+                const hex = wrapped.attributes.match(/color\s*=\s*["']?#?([0-9a-fA-F]{6})/);
+
+                if (hex) {
+                    const [red, green, blue] = [0, 2, 4].map((offset) => hex[1].substring(offset, offset + 2));
+
+                    color = `$${blue}${green}${red}`.toUpperCase();
+                }
+            } else if (MicroDvdFormat.STYLES.includes(wrapped.name)) {
+                styles.push(wrapped.name);
+            }
+
+            text = wrapped.inner;
+            wrapped = this.unwrap(text);
+        }
+
+        const codes = `${styles.length > 0 ? `{y:${styles.join(',')}}` : ''}${color ? `{c:${color}}` : ''}`;
+
+        return { codes, text: text.replace(/<[^>]+>/g, '') };
+    }
+
+    /**
+     * Match a single tag pair around the whole of `text`, e.g. `<i>...</i>`
+     */
+    private unwrap(text: string): { name: string; attributes: string; inner: string } | null {
+        const match = text.match(/^<([a-zA-Z]+)([^>]*)>([\s\S]*)<\/([a-zA-Z]+)>$/);
+
+        if (!match || match[1].toLowerCase() !== match[4].toLowerCase()) return null;
+
+        const name = match[1].toLowerCase();
+
+        // "<i>a</i> b <i>c</i>" is two spans, not one around everything
+        if (match[3].toLowerCase().includes(`</${name}>`)) return null;
+
+        return { name, attributes: match[2], inner: match[3] };
+    }
+
+    private wrap(text: string, openTags: string[]): string {
+        const closeTags = openTags.map((tag) => `</${tag.match(/^<([a-z]+)/)?.[1]}>`).reverse();
+
+        return `${openTags.join('')}${text}${closeTags.join('')}`;
+    }
+
+    private serializeFields(fields: Record<string, string> | undefined): string {
+        if (!fields) return '';
+
+        return Object.entries(fields)
+            .map(([key, value]) => `{${key}:${value}}`)
+            .join('');
+    }
+
+    private toMilliseconds(frame: number, frameRate: number): number {
+        return Math.round((frame * 1000) / frameRate);
+    }
+
+    private toFrame(ms: number, frameRate: number): number {
+        return Math.round((ms * frameRate) / 1000);
+    }
+}
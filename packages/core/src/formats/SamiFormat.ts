@@ -0,0 +1,151 @@
+import { ICue, ISubtitleDocument } from '@subzilla/types';
+
+import BaseSubtitleFormat from './BaseSubtitleFormat';
+
+interface ISamiEntry {
+    start: number;
+    track: string;
+    lines: string[];
+}
+
+interface ISamiTrack {
+    name: string;
+    lang?: string;
+}
+
+/**
+ * SAMI (.smi) reader
+ *
+ * Each `<SYNC Start=ms>` block holds one `<P Class=...>` paragraph per language
+ * track; a paragraph shows until the track's next SYNC, and an `&nbsp;` one
+ * just clears the screen. Only one track is read: the one whose class name or
+ * declared `lang:` matches the `language` option, else the first in the file.
+ * `<br>` becomes a line break and `<i>`, `<b>`, `<u>` and `<font>` are kept as
+ * inline tags. SAMI is read only; documents are written out in another format.
+ */
+export default class SamiFormat extends BaseSubtitleFormat {
+    public readonly format = 'smi' as const;
+
+    // How long the last paragraph shows when no SYNC follows to clear it
+    private static readonly LAST_CUE_DURATION = 4000;
+
+    private readonly language?: string;
+
+    private syncRegex = /<sync\b([^>]*)>/gi;
+    private paragraphRegex = /<p\b([^>]*)>([\s\S]*?)(?=<p\b|$)/gi;
+    private classRuleRegex = /\.([\w-]+)\s*\{([^}]*)\}/g;
+    private unsupportedTagRegex = /<\/?(?!(?:i|b|u|font)\b)[a-z][^>]*>/gi;
+
+    constructor(language?: string) {
+        super();
+        this.language = language;
+    }
+
+    public parse(content: string): ISubtitleDocument {
+        const warnings: string[] = [];
+        const declared = this.parseTracks(content);
+        const body = content.replace(/<!--[\s\S]*?-->/g, '');
+        const syncs = [...body.matchAll(this.syncRegex)];
+
+        if (syncs.length === 0) {
+            return { format: this.format, cues: [], warnings: ['No <SYNC> blocks found'] };
+        }
+
+        const bodyEnd = body.search(/<\/body>/i);
+        const entries: ISamiEntry[] = [];
+
+        syncs.forEach((sync, position) => {
+            const start = sync[1].match(/\bstart\s*=\s*["']?(\d+)/i);
+
+            if (!start) {
+                warnings.push(`Skipped <SYNC> without a Start time: "${sync[0]}"`);
+
+                return;
+            }
+
+            const from = (sync.index ?? 0) + sync[0].length;
+            const to = syncs[position + 1]?.index ?? (bodyEnd > from ? bodyEnd : body.length);
+            const block = body.substring(from, to);
+            const paragraphs = [...block.matchAll(this.paragraphRegex)];
+
+            if (paragraphs.length === 0) {
+                entries.push({ start: parseInt(start[1], 10), track: '', lines: this.toLines(block) });
+            }
+
+            paragraphs.forEach((paragraph) => {
+                const track = paragraph[1].match(/\bclass\s*=\s*["']?([\w-]+)/i)?.[1] ?? '';
+
+                entries.push({ start: parseInt(start[1], 10), track, lines: this.toLines(paragraph[2]) });
+            });
+        });
+
+        const tracks = [...new Set(entries.map((entry) => entry.track).filter((track) => track !== ''))];
+        const track = this.pickTrack(tracks, declared, warnings);
+        const selected = entries.filter((entry) => entry.track === '' || entry.track === track);
+        const cues: ICue[] = [];
+
+        selected.forEach((entry, position) => {
+            // "&nbsp;" paragraphs only mark where the previous one ends
+            if (entry.lines.length === 0) return;
+
+            const next = selected[position + 1];
+            const end = next ? next.start : entry.start + SamiFormat.LAST_CUE_DURATION;
+
+            cues.push(this.createCue(cues.length + 1, entry.start, end, entry.lines));
+        });
+
+        return { format: this.format, cues, warnings };
+    }
+
+    public serialize(): string {
+        throw new Error('Writing SAMI files is not supported');
+    }
+
+    /**
+     * Pick the track matching the language option by class name or declared `lang:`, else the first one
+     */
+    private pickTrack(tracks: string[], declared: ISamiTrack[], warnings: string[]): string | undefined {
+        if (tracks.length === 0) return undefined;
+
+        if (this.language) {
+            const wanted = this.language.toLowerCase();
+            const match = tracks.find((track) => {
+                const lang = declared.find((entry) => entry.name.toLowerCase() === track.toLowerCase())?.lang;
+
+                return track.toLowerCase() === wanted || lang?.toLowerCase().split('-')[0] === wanted.split('-')[0];
+            });
+
+            if (match) return match;
+
+            warnings.push(`No SAMI track matches "${this.language}"; using ${tracks[0]}`);
+        } else if (tracks.length > 1) {
+            warnings.push(`File has ${tracks.length} language tracks (${tracks.join(', ')}); using ${tracks[0]}`);
+        }
+
+        return tracks[0];
+    }
+
+    /**
+     * Read class rules like `.KRCC { Name: Korean; lang: ko-KR; }` from the STYLE block
+     */
+    private parseTracks(content: string): ISamiTrack[] {
+        const style = content.match(/<style\b[^>]*>([\s\S]*?)<\/style>/i)?.[1] ?? '';
+
+        return [...style.matchAll(this.classRuleRegex)].map(([, name, rules]) => ({
+            name,
+            lang: rules.match(/\blang\s*:\s*([\w-]+)/i)?.[1],
+        }));
+    }
+
+    private toLines(html: string): string[] {
+        const text = html
+            .replace(/\r\n|\r|\n/g, ' ')
+            .replace(/<br\s*\/?>/gi, '\n')
+            .replace(this.unsupportedTagRegex, '');
+
+        return this.decodeEntities(text)
+            .split('\n')
+            .map((line) => line.replace(/\s+/g, ' ').trim())
+            .filter((line) => line.length > 0);
+    }
+}
@@ -0,0 +1,122 @@
+import { ICue, ISubtitleDocument } from '@subzilla/types';
+
+import BaseSubtitleFormat from './BaseSubtitleFormat';
+import Timecode from './Timecode';
+
+/**
+ * SubRip (.srt) reader and writer
+ *
+ * The reader is line-oriented rather than block-oriented: a timing line starts a
+ * new cue wherever it appears, so files with missing blank lines, missing or
+ * bogus sequence numbers, blank lines inside cue text, or `.` instead of `,` in
+ * timestamps still come out as the cues the author intended.
+ */
+export default class SrtFormat extends BaseSubtitleFormat {
+    public readonly format = 'srt' as const;
+
+    // "00:00:01,000 --> 00:00:02,000" plus tolerated variants ("->", no spaces,
+    // "." fractions, single-digit hours) and optional trailing coordinates
+    private timingRegex = /^\s*([\d:.,]+)\s*-{1,2}>\s*([\d:.,]+)(?:\s+(.*?))?\s*$/;
+    private indexRegex = /^\s*(\d+)\s*$/;
+
+    public parse(content: string): ISubtitleDocument {
+        const cues: ICue[] = [];
+        const warnings: string[] = [];
+        let pending: string[] = [];
+        let current: ICue | null = null;
+
+        const flush = (): void => {
+            const text = pending.map((line) => line.trim()).filter((line) => line.length > 0);
+
+            if (current) {
+                current.lines = text;
+                current.tags = this.extractTags(text);
+            } else if (text.length > 0) {
+                warnings.push(`Skipped ${text.length} line(s) before the first cue`);
+            }
+
+            pending = [];
+        };
+
+        this.splitLines(content).forEach((line, lineNumber) => {
+            const timing = line.match(this.timingRegex);
+
+            if (!timing) {
+                pending.push(line);
+
+                return;
+            }
+
+            const start = Timecode.parseClock(timing[1]);
+            const end = Timecode.parseClock(timing[2]);
+
+            if (start === null || end === null) {
+                warnings.push(`Line ${lineNumber + 1}: unreadable timing "${line.trim()}"`);
+                pending.push(line);
+
+                return;
+            }
+
+            while (pending.length > 0 && pending[pending.length - 1].trim() === '') {
+                pending.pop();
+            }
+
+            const indexMatch = this.matchIndex(pending, current);
+
+            if (indexMatch) {
+                pending.pop();
+            }
+
+            flush();
+
+            if (end < start) {
+                warnings.push(`Line ${lineNumber + 1}: cue ends before it starts`);
+            }
+
+            current = this.createCue(indexMatch ? parseInt(indexMatch[1], 10) : cues.length + 1, start, end, []);
+
+            // SRT coordinates ("X1:100 X2:600 Y1:20 Y2:50") written after the timing
+            const settings = this.parseSettings(timing[3]);
+
+            if (settings) {
+                current.settings = settings;
+            }
+
+            cues.push(current);
+        });
+
+        flush();
+
+        return { format: this.format, cues, warnings };
+    }
+
+    public serialize(document: ISubtitleDocument): string {
+        if (document.cues.length === 0) return '';
+
+        const blocks = document.cues.map((cue) => {
+            const timing = `${Timecode.formatClock(cue.start)} --> ${Timecode.formatClock(cue.end)}`;
+            const settings = this.serializeSettings(cue.settings);
+
+            return [String(cue.index), settings ? `${timing} ${settings}` : timing, ...cue.lines].join('\n');
+        });
+
+        // One blank line between cues, and a final newline as most players expect
+        return `${blocks.join('\n\n')}\n`;
+    }
+
+    /**
+     * Read the last pending line as the sequence number of the cue that follows. A
+     * number counts when it starts its own block (after a blank line, or at the top
+     * of the file) or, glued to the previous cue's text, when it is the next number
+     * in sequence; otherwise it is dialogue such as "42".
+     */
+    private matchIndex(pending: string[], previous: ICue | null): RegExpMatchArray | null {
+        const indexMatch = pending.length > 0 ? pending[pending.length - 1].match(this.indexRegex) : null;
+
+        if (!indexMatch) return null;
+
+        const ownBlock = pending.length > 1 ? pending[pending.length - 2].trim() === '' : previous === null;
+
+        return ownBlock || parseInt(indexMatch[1], 10) === (previous?.index ?? 0) + 1 ? indexMatch : null;
+    }
+}
@@ -0,0 +1,113 @@
+import { ICue, ISubtitleDocument, ISubtitleSection } from '@subzilla/types';
+
+import BaseSubtitleFormat from './BaseSubtitleFormat';
+import Timecode from './Timecode';
+
+/**
+ * SubViewer 2 (.sub) reader
+ *
+ * Cues are a `00:00:01.00,00:00:03.00` timing line followed by text, with `[br]`
+ * as the line break. The `[INFORMATION]` block and the style line after
+ * `[SUBTITLE]` (`[COLF]`, `[FONT]`, ...) are kept as sections. SubViewer is read
+ * only; documents are written out in another format.
+ */
+export default class SubViewerFormat extends BaseSubtitleFormat {
+    public readonly format = 'subviewer' as const;
+
+    private static readonly INFORMATION = 'INFORMATION';
+    private static readonly SUBTITLE = 'SUBTITLE';
+
+    private static timingRegex = /^\s*(\d{1,2}:\d{2}:\d{2}[.,]\d{1,3})\s*,\s*(\d{1,2}:\d{2}:\d{2}[.,]\d{1,3})\s*$/;
+
+    private lineBreakRegex = /\[br\]/gi;
+    private tagLineRegex = /^\s*\[[A-Z ]+\]/;
+
+    public parse(content: string): ISubtitleDocument {
+        const cues: ICue[] = [];
+        const sections: ISubtitleSection[] = [];
+        const warnings: string[] = [];
+        let section: ISubtitleSection | null = null;
+        let current: ICue | null = null;
+
+        this.splitLines(content).forEach((line, lineNumber) => {
+            const trimmed = line.trim();
+            const timing = trimmed.match(SubViewerFormat.timingRegex);
+
+            if (timing) {
+                const start = Timecode.parseClock(timing[1]);
+                const end = Timecode.parseClock(timing[2]);
+
+                section = null;
+                current = start === null || end === null ? null : this.createCue(cues.length + 1, start, end, []);
+
+                if (current) {
+                    cues.push(current);
+                } else {
+                    warnings.push(`Line ${lineNumber + 1}: unreadable timing "${trimmed}"`);
+                }
+
+                return;
+            }
+
+            if (!trimmed) {
+                current = null;
+
+                return;
+            }
+
+            if (current) {
+                current.lines.push(...this.splitText(trimmed));
+                current.tags = this.extractTags(current.lines);
+
+                return;
+            }
+
+            const marker = trimmed.toUpperCase();
+
+            if (marker === `[${SubViewerFormat.INFORMATION}]` || marker === `[${SubViewerFormat.SUBTITLE}]`) {
+                section = { name: marker.slice(1, -1), lines: [] };
+                sections.push(section);
+
+                return;
+            }
+
+            if (marker === '[END INFORMATION]') {
+                section = null;
+
+                return;
+            }
+
+            // Style lines ([COLF]..., [FONT]...) sometimes come without a [SUBTITLE] marker
+            if (!section && this.tagLineRegex.test(trimmed)) {
+                section = { name: SubViewerFormat.SUBTITLE, lines: [] };
+                sections.push(section);
+            }
+
+            if (section) {
+                section.lines.push(trimmed);
+
+                return;
+            }
+
+            warnings.push(`Line ${lineNumber + 1}: skipped text outside of any cue`);
+        });
+
+        return {
+            format: this.format,
+            cues,
+            sections: sections.filter((entry) => entry.lines.length > 0),
+            warnings,
+        };
+    }
+
+    public serialize(): string {
+        throw new Error('Writing SubViewer files is not supported');
+    }
+
+    private splitText(text: string): string[] {
+        return text
+            .split(this.lineBreakRegex)
+            .map((line) => line.trim())
+            .filter((line) => line.length > 0);
+    }
+}
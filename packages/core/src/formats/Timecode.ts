@@ -0,0 +1,55 @@
+/**
+ * Conversion between clock-style timestamps and milliseconds
+ */
+export default class Timecode {
+    // H:MM:SS with an optional fraction separated by "," "." or ":"; hours may be
+    // omitted (MM:SS.mmm) and any field may be a single digit
+    private static clockRegex = /^(?:(\d+):)?(\d{1,2}):(\d{1,2})(?:[,.:](\d{1,3}))?$/;
+
+    /**
+     * Parse a clock timestamp into milliseconds
+     * @param value Timestamp such as "00:01:02,345", "1:02:03.4" or "01:02.345"
+     * @returns Milliseconds, or null when the value is not a valid timestamp
+     */
+    public static parseClock(value: string): number | null {
+        const match = value.trim().match(this.clockRegex);
+
+        if (!match) return null;
+
+        const [, hours = '0', minutes, seconds, fraction = '0'] = match;
+        const m = parseInt(minutes, 10);
+        const s = parseInt(seconds, 10);
+
+        if (m > 59 || s > 59) return null;
+
+        // The fraction is decimal: ".5" is half a second, not 5ms
+        const ms = parseInt(fraction.padEnd(3, '0'), 10);
+
+        return ((parseInt(hours, 10) * 60 + m) * 60 + s) * 1000 + ms;
+    }
+
+    /**
+     * Format milliseconds as a clock timestamp
+     * @param ms Time in milliseconds (negative values are clamped to zero)
+     * @param separator Character placed before the fraction
+     * @param fractionDigits Digits of fraction to keep (3 = ms, 2 = centiseconds)
+     * @param hourDigits Minimum width of the hour field
+     */
+    public static formatClock(ms: number, separator = ',', fractionDigits = 3, hourDigits = 2): string {
+        const total = Math.max(0, Math.round(ms));
+        const unit = 10 ** (3 - fractionDigits);
+        const fraction = Math.floor((total % 1000) / unit);
+        const totalSeconds = Math.floor(total / 1000);
+        const hours = Math.floor(totalSeconds / 3600);
+        const minutes = Math.floor((totalSeconds % 3600) / 60);
+        const seconds = totalSeconds % 60;
+
+        const clock = [
+            String(hours).padStart(hourDigits, '0'),
+            String(minutes).padStart(2, '0'),
+            String(seconds).padStart(2, '0'),
+        ].join(':');
+
+        return fractionDigits > 0 ? `${clock}${separator}${String(fraction).padStart(fractionDigits, '0')}` : clock;
+    }
+}
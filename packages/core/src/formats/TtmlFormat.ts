@@ -0,0 +1,397 @@
+import { ICue, ISubtitleDocument } from '@subzilla/types';
+
+import BaseSubtitleFormat from './BaseSubtitleFormat';
+import Timecode from './Timecode';
+
+type TStyle = Record<string, string>;
+
+interface ITimeBase {
+    frameRate: number;
+    subFrameRate: number;
+    tickRate: number;
+}
+
+interface ITtmlElement {
+    name: string;
+    // Styling inherited from ancestors plus the element's own
+    style: TStyle;
+    // Where the element begins on the document timeline, in milliseconds
+    offset: number;
+    // Where it ends, when the element or one of its ancestors says so
+    end: number | null;
+    // Inline tags to close when the element ends
+    closeTags: string[];
+}
+
+interface IOpenParagraph {
+    start: number;
+    end: number;
+    style: TStyle;
+    lines: string[];
+}
+
+/**
+ * TTML / DFXP (.ttml, .dfxp) reader and writer
+ *
+ * Each `<p>` becomes a cue. Times may be clock values (`00:00:01.500`,
+ * `00:00:01:12` with frames) or offsets (`1.5s`, `36f`, `15000000t`), read
+ * against the root's `ttp:frameRate`, `ttp:frameRateMultiplier` and
+ * `ttp:tickRate`, and nested `begin` times add up; a `<p>` without times of its
+ * own takes them from its `<div>` or `<body>`. `<br/>` becomes a line break,
+ * and italic, bold, underline, line-through and colour styling - inline `tts:`
+ * attributes or referenced `<style>`s - become the same inline tags SRT uses.
+ * Colour is only taken from the paragraph or span that sets it, since colours on
+ * `<body>` and `<div>` are almost always just the default. A right-to-left
+ * `tts:direction` is kept on the cue; the writer puts it back, and also sets it
+ * on cues from other formats whose text starts in a right-to-left script.
+ */
+export default class TtmlFormat extends BaseSubtitleFormat {
+    public readonly format = 'ttml' as const;
+
+    private static readonly NAMESPACE = 'http://www.w3.org/ns/ttml';
+
+    // Styling that passes from <body> and <div> down to paragraphs
+    private static readonly EMPHASIS = ['fontStyle', 'fontWeight', 'textDecoration', 'direction'];
+
+    // Inline tags and the span styling they are written as
+    private static readonly TAG_STYLES: Record<string, string> = {
+        i: 'tts:fontStyle="italic"',
+        b: 'tts:fontWeight="bold"',
+        u: 'tts:textDecoration="underline"',
+        s: 'tts:textDecoration="lineThrough"',
+    };
+
+    private static readonly UNITS: Record<string, (amount: number, base: ITimeBase) => number> = {
+        h: (amount) => amount * 3600,
+        m: (amount) => amount * 60,
+        s: (amount) => amount,
+        ms: (amount) => amount / 1000,
+        f: (amount, base) => amount / base.frameRate,
+        t: (amount, base) => amount / base.tickRate,
+    };
+
+    private readonly language?: string;
+
+    private rootRegex = /<(?:[\w-]+:)?tt\b([^>]*)>/;
+    private tagRegex = /^<(\/?)(?:[\w-]+:)?([\w-]+)([^>]*?)(\/?)>$/;
+    private attributeRegex = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+    private definitionRegex = /<(?:[\w-]+:)?(?:style|region)\b([^>]*)>/g;
+    private clockRegex = /^(\d+):(\d{2}):(\d{2})(?:(\.\d+)|:(\d+)(?:\.(\d+))?)?$/;
+    private offsetRegex = /^(\d+(?:\.\d+)?)(h|ms|m|s|f|t)$/;
+    private htmlTagRegex = /<(\/?)([a-zA-Z]+)([^>]*)>/g;
+    private rightToLeftRegex = /[\p{Script=Arabic}\p{Script=Hebrew}\p{Script=Syriac}\p{Script=Thaana}\p{Script=Nko}]/u;
+
+    constructor(language?: string) {
+        super();
+        this.language = language;
+    }
+
+    public parse(content: string): ISubtitleDocument {
+        const xml = content.replace(/<!--[\s\S]*?-->/g, '');
+        const root = xml.match(this.rootRegex);
+
+        if (!root) {
+            return { format: this.format, cues: [], warnings: ['No <tt> root element found'] };
+        }
+
+        const base = this.parseTimeBase(this.parseAttributes(root[1]));
+        const definitions = this.parseDefinitions(xml);
+        const cues: ICue[] = [];
+        const warnings: string[] = [];
+        const stack: ITtmlElement[] = [];
+        let paragraph: IOpenParagraph | null = null;
+
+        const append = (text: string): void => {
+            if (paragraph) paragraph.lines[paragraph.lines.length - 1] += text;
+        };
+
+        for (const token of xml.split(/(<[^>]*>)/)) {
+            if (!token.startsWith('<')) {
+                append(this.decodeEntities(token.replace(/\s+/g, ' ')));
+
+                continue;
+            }
+
+            // <?xml ...?>, <!DOCTYPE ...> and the like
+            const tag = token.match(this.tagRegex);
+
+            if (!tag) continue;
+
+            const [, closing, name, rawAttributes, selfClosing] = tag;
+
+            if (closing) {
+                const element = stack.pop();
+
+                append(element?.closeTags.join('') ?? '');
+
+                if (element?.name === 'p' && paragraph) {
+                    cues.push(this.createParagraphCue(cues.length + 1, paragraph));
+                    paragraph = null;
+                }
+
+                continue;
+            }
+
+            if (name === 'br') {
+                paragraph?.lines.push('');
+
+                continue;
+            }
+
+            const attributes = this.parseAttributes(rawAttributes);
+            const parent = stack[stack.length - 1];
+            const own = this.resolveStyle(attributes, definitions);
+            const region = attributes.region
+                ? this.resolveStyle(definitions[attributes.region] ?? {}, definitions)
+                : {};
+            const begin = this.parseTime(attributes.begin, base);
+            const offset = (parent?.offset ?? 0) + (begin ?? 0);
+            let end = parent?.end ?? null;
+
+            if (attributes.end !== undefined) {
+                end = this.offsetBy(parent?.offset ?? 0, this.parseTime(attributes.end, base));
+            } else if (attributes.dur !== undefined) {
+                end = this.offsetBy(offset, this.parseTime(attributes.dur, base));
+            }
+
+            const element: ITtmlElement = {
+                name,
+                style: { ...this.inherited(parent?.style ?? {}), ...region, ...own },
+                offset,
+                end,
+                closeTags: [],
+            };
+
+            if (name === 'p' && !paragraph) {
+                if ((attributes.begin !== undefined && begin === null) || end === null) {
+                    warnings.push(`Skipped <p> without readable begin and end times: "${token}"`);
+                } else {
+                    // Colour only counts when the paragraph sets it itself
+                    const style = { ...this.inherited(element.style), ...(own.color ? { color: own.color } : {}) };
+
+                    paragraph = { start: offset, end, style, lines: [''] };
+                }
+            } else if (name === 'span' && paragraph) {
+                const openTags = this.styleToTags(own);
+
+                append(openTags.join(''));
+                element.closeTags = this.closeTagsFor(openTags);
+            }
+
+            if (!selfClosing) stack.push(element);
+        }
+
+        if (cues.length === 0 && warnings.length === 0) {
+            warnings.push('No timed <p> paragraphs found');
+        }
+
+        return { format: this.format, cues, warnings };
+    }
+
+    public serialize(document: ISubtitleDocument): string {
+        const language = this.language ? ` xml:lang="${this.escape(this.language, true)}"` : '';
+        const lines = [
+            '<?xml version="1.0" encoding="UTF-8"?>',
+            `<tt xmlns="${TtmlFormat.NAMESPACE}" xmlns:tts="${TtmlFormat.NAMESPACE}#styling"${language}>`,
+            '  <body>',
+            '    <div>',
+            ...document.cues.map((cue) => `      ${this.serializeCue(cue)}`),
+            '    </div>',
+            '  </body>',
+            '</tt>',
+        ];
+
+        return `${lines.join('\n')}\n`;
+    }
+
+    private createParagraphCue(index: number, paragraph: IOpenParagraph): ICue {
+        const openTags = this.styleToTags(paragraph.style);
+        const closeTags = this.closeTagsFor(openTags);
+        const lines = paragraph.lines
+            .map((line) => line.replace(/\s+/g, ' ').trim())
+            .filter((line) => line.replace(/<[^>]*>/g, '').trim().length > 0)
+            .map((line) => `${openTags.join('')}${line}${closeTags.join('')}`);
+        const cue = this.createCue(index, paragraph.start, paragraph.end, lines);
+
+        if (paragraph.style.direction === 'rtl') {
+            cue.fields = { direction: 'rtl' };
+        }
+
+        return cue;
+    }
+
+    private serializeCue(cue: ICue): string {
+        const rightToLeft = cue.fields?.direction === 'rtl' || this.startsRightToLeft(cue.lines.join(' '));
+        const timing = `begin="${Timecode.formatClock(cue.start, '.')}" end="${Timecode.formatClock(cue.end, '.')}"`;
+        const direction = rightToLeft ? ' tts:direction="rtl"' : '';
+
+        return `<p ${timing}${direction}>${cue.lines.map((line) => this.toTtml(line)).join('<br/>')}</p>`;
+    }
+
+    /**
+     * Turn inline tags into styled spans and escape the text between them
+     */
+    private toTtml(line: string): string {
+        const open: string[] = [];
+        let result = '';
+        let last = 0;
+
+        for (const match of line.matchAll(this.htmlTagRegex)) {
+            const [whole, closing, rawName, attributes] = match;
+            const name = rawName.toLowerCase();
+
+            result += this.escape(line.substring(last, match.index));
+            last = (match.index ?? 0) + whole.length;
+
+            if (closing) {
+                const position = open.lastIndexOf(name);
+
+                if (position >= 0) {
+                    result += '</span>'.repeat(open.length - position);
+                    open.splice(position);
+                }
+
+                continue;
+            }
+
+            const style = this.tagToStyle(name, attributes);
+
+            if (style) {
+                result += `<span ${style}>`;
+                open.push(name);
+            }
+        }
+
+        return `${result}${this.escape(line.substring(last))}${'</span>'.repeat(open.length)}`;
+    }
+
+    private tagToStyle(name: string, attributes: string): string | null {
+        if (name !== 'font') return TtmlFormat.TAG_STYLES[name] ?? null;
+
+        const color = attributes.match(/color\s*=\s*["']?([^"'\s>]+)/i);
+
+        return color ? `tts:color="${this.escape(color[1], true)}"` : null;
+    }
+
+    private styleToTags(style: TStyle): string[] {
+        const tags: string[] = [];
+        const decoration = style.textDecoration ?? '';
+
+        if (style.fontStyle === 'italic' || style.fontStyle === 'oblique') tags.push('<i>');
+        if (style.fontWeight === 'bold') tags.push('<b>');
+        if (/\bunderline\b/.test(decoration)) tags.push('<u>');
+        if (/\blineThrough\b/.test(decoration)) tags.push('<s>');
+        if (style.color) tags.push(`<font color="${style.color}">`);
+
+        return tags;
+    }
+
+    private closeTagsFor(openTags: string[]): string[] {
+        return openTags.map((tag) => `</${tag.match(/^<([a-z]+)/)?.[1]}>`).reverse();
+    }
+
+    private inherited(style: TStyle): TStyle {
+        return Object.fromEntries(Object.entries(style).filter(([key]) => TtmlFormat.EMPHASIS.includes(key)));
+    }
+
+    /**
+     * Collect `tts:` styling from the element's referenced styles, then its own attributes
+     */
+    private resolveStyle(attributes: TStyle, definitions: Record<string, TStyle>, depth = 0): TStyle {
+        const referenced = (attributes.style ?? '')
+            .split(/\s+/)
+            .filter((id) => id && definitions[id] && depth < 5)
+            .map((id) => this.resolveStyle(definitions[id], definitions, depth + 1));
+        const own = Object.entries(attributes)
+            .filter(([key]) => key.startsWith('tts:'))
+            .map(([key, value]) => [key.substring(4), value]);
+
+        return Object.assign({}, ...referenced, Object.fromEntries(own));
+    }
+
+    /**
+     * Read `<style>` and `<region>` definitions by their `xml:id`
+     */
+    private parseDefinitions(xml: string): Record<string, TStyle> {
+        const definitions: Record<string, TStyle> = {};
+
+        for (const [, raw] of xml.matchAll(this.definitionRegex)) {
+            const attributes = this.parseAttributes(raw);
+            const id = attributes['xml:id'];
+
+            if (id) definitions[id] = attributes;
+        }
+
+        return definitions;
+    }
+
+    private parseAttributes(raw: string): TStyle {
+        const attributes: TStyle = {};
+
+        for (const [, name, doubleQuoted, singleQuoted] of raw.matchAll(this.attributeRegex)) {
+            attributes[name] = this.decodeEntities(doubleQuoted ?? singleQuoted);
+        }
+
+        return attributes;
+    }
+
+    private parseTimeBase(attributes: TStyle): ITimeBase {
+        const [numerator = 1, denominator = 1] = (attributes['ttp:frameRateMultiplier'] ?? '')
+            .split(/\s+/)
+            .filter((value) => value)
+            .map(Number);
+        const frameRate = (parseFloat(attributes['ttp:frameRate']) || 30) * ((numerator || 1) / (denominator || 1));
+        const subFrameRate = parseFloat(attributes['ttp:subFrameRate']) || 1;
+
+        // Without a tick rate, ticks are sub-frames when a frame rate is given, else seconds
+        const tickRate =
+            parseFloat(attributes['ttp:tickRate']) || (attributes['ttp:frameRate'] ? frameRate * subFrameRate : 1);
+
+        return { frameRate, subFrameRate, tickRate };
+    }
+
+    /**
+     * Parse a TTML time expression into milliseconds
+     * @returns Milliseconds, or null when the value is missing or unreadable
+     */
+    private parseTime(value: string | undefined, base: ITimeBase): number | null {
+        if (value === undefined) return null;
+
+        const clock = value.trim().match(this.clockRegex);
+
+        if (clock) {
+            const [, hours, minutes, seconds, fraction, frames, subFrames] = clock;
+            let total = (parseInt(hours, 10) * 60 + parseInt(minutes, 10)) * 60 + parseInt(seconds, 10);
+
+            if (fraction) total += parseFloat(fraction);
+
+            if (frames) {
+                total +=
+                    (parseInt(frames, 10) + (subFrames ? parseInt(subFrames, 10) / base.subFrameRate : 0)) /
+                    base.frameRate;
+            }
+
+            return Math.round(total * 1000);
+        }
+
+        const offset = value.trim().match(this.offsetRegex);
+
+        return offset ? Math.round(TtmlFormat.UNITS[offset[2]](parseFloat(offset[1]), base) * 1000) : null;
+    }
+
+    private offsetBy(offset: number, time: number | null): number | null {
+        return time === null ? null : offset + time;
+    }
+
+    private startsRightToLeft(text: string): boolean {
+        const letter = text.replace(/<[^>]*>/g, '').match(/\p{L}/u);
+
+        return letter !== null && this.rightToLeftRegex.test(letter[0]);
+    }
+
+    private escape(text: string, attribute = false): string {
+        const escaped = text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+        return attribute ? escaped.replace(/"/g, '&quot;') : escaped;
+    }
+}
@@ -0,0 +1,30 @@
+import { ISubtitleDocument } from '@subzilla/types';
+
+import BaseSubtitleFormat from './BaseSubtitleFormat';
+
+/**
+ * Plain text (.txt) transcript writer
+ *
+ * Writes the text of each cue as a paragraph, with no timing. Plain text cannot
+ * be turned back into cues, so the reader returns an empty document and the
+ * content is processed as a whole instead.
+ */
+export default class TxtFormat extends BaseSubtitleFormat {
+    public readonly format = 'txt' as const;
+
+    public parse(content: string): ISubtitleDocument {
+        return {
+            format: this.format,
+            cues: [],
+            warnings: content.trim() ? ['Plain text has no timing; no cues were read'] : [],
+        };
+    }
+
+    public serialize(document: ISubtitleDocument): string {
+        const paragraphs = document.cues.filter((cue) => cue.lines.length > 0).map((cue) => cue.lines.join('\n'));
+
+        if (paragraphs.length === 0) return '';
+
+        return `${paragraphs.join('\n\n')}\n`;
+    }
+}
@@ -0,0 +1,155 @@
+import { ICue, ISubtitleDocument, ISubtitleSection } from '@subzilla/types';
+
+import BaseSubtitleFormat from './BaseSubtitleFormat';
+import Timecode from './Timecode';
+
+/**
+ * WebVTT (.vtt) reader and writer
+ *
+ * Cue identifiers, cue settings and `<v>` voice spans are carried on the cue;
+ * the `WEBVTT` header and `NOTE`, `STYLE` and `REGION` blocks are kept verbatim as
+ * sections. Sections are written before the first cue, which is where the spec
+ * requires `STYLE` and `REGION` to be, so a `NOTE` placed between cues moves up.
+ * Cue text, including character references such as `&amp;`, is left as written.
+ */
+export default class VttFormat extends BaseSubtitleFormat {
+    public readonly format = 'vtt' as const;
+
+    private static readonly HEADER = 'WEBVTT';
+    private static readonly BLOCK_KEYWORDS = ['NOTE', 'STYLE', 'REGION'];
+    private static readonly CUE_SETTINGS = ['vertical', 'line', 'position', 'size', 'align', 'region'];
+
+    private headerRegex = /^WEBVTT(?:[ \t](.*))?$/;
+    private timingRegex = /^\s*(\S+)\s+-->\s+(\S+)(?:\s+(.*?))?\s*$/;
+    private voiceRegex = /<v(?:\.[^\s>]+)*\s+([^>]+)>/;
+
+    public parse(content: string): ISubtitleDocument {
+        const cues: ICue[] = [];
+        const sections: ISubtitleSection[] = [];
+        const warnings: string[] = [];
+        const blocks = this.splitBlocks(this.splitLines(content));
+
+        if (blocks.length > 0 && this.headerRegex.test(blocks[0][0])) {
+            const [first, ...metadata] = blocks.shift() as string[];
+
+            sections.push({ name: VttFormat.HEADER, lines: [first.match(this.headerRegex)?.[1] ?? '', ...metadata] });
+        } else if (blocks.length > 0) {
+            warnings.push('Missing WEBVTT header');
+        }
+
+        blocks.forEach((block) => {
+            const keyword = VttFormat.BLOCK_KEYWORDS.find(
+                (name) => block[0] === name || block[0].startsWith(`${name} `) || block[0].startsWith(`${name}\t`),
+            );
+
+            if (keyword) {
+                sections.push({ name: keyword, lines: [block[0].substring(keyword.length).trim(), ...block.slice(1)] });
+
+                return;
+            }
+
+            const cue = this.parseCue(block, cues.length + 1);
+
+            if (cue) {
+                cues.push(cue);
+            } else {
+                warnings.push(`Skipped block without a valid timing line: "${block[0]}"`);
+            }
+        });
+
+        return { format: this.format, cues, sections, warnings };
+    }
+
+    public serialize(document: ISubtitleDocument): string {
+        const sections = document.format === this.format ? (document.sections ?? []) : [];
+        const header = sections.find((section) => section.name === VttFormat.HEADER);
+        const blocks = [
+            this.serializeSection(header ?? { name: VttFormat.HEADER, lines: [''] }),
+            ...sections.filter((section) => section !== header).map((section) => this.serializeSection(section)),
+            ...document.cues.map((cue) => this.serializeCue(cue)),
+        ];
+
+        return `${blocks.join('\n\n')}\n`;
+    }
+
+    private parseCue(block: string[], index: number): ICue | null {
+        // An optional identifier line comes before the timing line
+        const hasIdentifier = !block[0].includes('-->');
+        const timingLine = hasIdentifier ? block[1] : block[0];
+        const timing = timingLine?.match(this.timingRegex);
+
+        if (!timing) return null;
+
+        const start = Timecode.parseClock(timing[1]);
+        const end = Timecode.parseClock(timing[2]);
+
+        if (start === null || end === null) return null;
+
+        const lines = block.slice(hasIdentifier ? 2 : 1);
+        const cue = this.createCue(index, start, end, lines);
+        const voice = lines.join('\n').match(this.voiceRegex);
+        const settings = this.parseSettings(timing[3]);
+
+        if (hasIdentifier) {
+            cue.identifier = block[0].trim();
+        }
+
+        if (voice) {
+            cue.voice = voice[1].trim();
+        }
+
+        if (settings) {
+            cue.settings = settings;
+        }
+
+        return cue;
+    }
+
+    private serializeCue(cue: ICue): string {
+        const timing = `${Timecode.formatClock(cue.start, '.')} --> ${Timecode.formatClock(cue.end, '.')}`;
+        const settings = this.serializeSettings(this.pickCueSettings(cue.settings));
+        const lines = [settings ? `${timing} ${settings}` : timing, ...cue.lines];
+
+        if (cue.identifier) {
+            lines.unshift(cue.identifier);
+        }
+
+        return lines.join('\n');
+    }
+
+    private serializeSection(section: ISubtitleSection): string {
+        const [first = '', ...rest] = section.lines;
+
+        return [first ? `${section.name} ${first}` : section.name, ...rest].join('\n');
+    }
+
+    /**
+     * Keep only settings WebVTT understands, so e.g. SRT coordinates never leak in
+     */
+    private pickCueSettings(settings: Record<string, string> | undefined): Record<string, string> | undefined {
+        if (!settings) return undefined;
+
+        return Object.fromEntries(Object.entries(settings).filter(([key]) => VttFormat.CUE_SETTINGS.includes(key)));
+    }
+
+    /**
+     * Split lines into blocks separated by one or more blank lines
+     */
+    private splitBlocks(lines: string[]): string[][] {
+        const blocks: string[][] = [];
+        let current: string[] = [];
+
+        for (const line of lines) {
+            if (line.trim() === '') {
+                if (current.length > 0) blocks.push(current);
+                current = [];
+            } else {
+                current.push(line);
+            }
+        }
+
+        if (current.length > 0) blocks.push(current);
+
+        return blocks;
+    }
+}
@@ -1,6 +1,21 @@
+export { default as ArabicNormalizationService } from './ArabicNormalizationService';
 export { default as BatchProcessor } from './BatchProcessor';
 export { default as EncodingConversionService } from './EncodingConversionService';
 export { default as EncodingDetectionService } from './EncodingDetectionService';
 export { default as FormattingStripper } from './FormattingStripper';
+export { default as MojibakeRepairService } from './MojibakeRepairService';
+export { default as RtlTextService } from './RtlTextService';
 export { default as SubtitleProcessor } from './SubtitleProcessor';
+export { default as VietnameseLegacyService } from './VietnameseLegacyService';
+export { default as AssFormat } from './formats/AssFormat';
+export { default as FormatConverter } from './formats/FormatConverter';
+export { default as FormatRegistry } from './formats/FormatRegistry';
+export { default as FormatSniffer } from './formats/FormatSniffer';
+export { default as MicroDvdFormat } from './formats/MicroDvdFormat';
+export { default as SamiFormat } from './formats/SamiFormat';
+export { default as SrtFormat } from './formats/SrtFormat';
+export { default as SubViewerFormat } from './formats/SubViewerFormat';
+export { default as TtmlFormat } from './formats/TtmlFormat';
+export { default as TxtFormat } from './formats/TxtFormat';
+export { default as VttFormat } from './formats/VttFormat';
 export { default as ConfigManager } from './ConfigManager';
@@ -1,8 +1,14 @@
-import { IOutputStrategy } from '@subzilla/types';
+import { IOutputStrategy, TOutputFormat } from '@subzilla/types';
 
 export default class OverwriteOutputStrategy implements IOutputStrategy {
-    getOutputPath(inputPath: string): string {
-        return inputPath;
+    getOutputPath(inputPath: string, format?: TOutputFormat): string {
+        if (!format) return inputPath;
+
+        // A converted file cannot keep the old extension, so it goes next to the input instead
+        const dotIndex = inputPath.lastIndexOf('.');
+        const baseName = dotIndex === -1 ? inputPath : inputPath.substring(0, dotIndex);
+
+        return `${baseName}.${format}`;
     }
 
     get shouldBackup(): boolean {
@@ -1,17 +1,18 @@
-import { IOutputStrategy } from '@subzilla/types';
+import { IOutputStrategy, TOutputFormat } from '@subzilla/types';
 
 export default class SuffixOutputStrategy implements IOutputStrategy {
     constructor(private suffix: string = '.subzilla') {
         this.suffix = suffix;
     }
 
-    getOutputPath(inputPath: string): string {
+    getOutputPath(inputPath: string, format?: TOutputFormat): string {
         const dotIndex = inputPath.lastIndexOf('.');
+        const formatExtension = format ? `.${format}` : undefined;
 
-        if (dotIndex === -1) return `${inputPath}${this.suffix}`;
+        if (dotIndex === -1) return `${inputPath}${this.suffix}${formatExtension ?? ''}`;
 
         const baseName = inputPath.substring(0, dotIndex);
-        const extension = inputPath.substring(dotIndex);
+        const extension = formatExtension ?? inputPath.substring(dotIndex);
 
         return `${baseName}${this.suffix}${extension}`;
     }
@@ -1,7 +1,7 @@
 import { describe, it, expect, beforeEach, jest } from '@jest/globals';
 import { ipcMain, dialog, shell } from 'electron';
 
-import { SubtitleProcessor, BatchProcessor } from '@subzilla/core';
+import { SubtitleProcessor, BatchProcessor, FormatSniffer } from '@subzilla/core';
 import { IConfig, IConvertOptions, IBatchStats } from '@subzilla/types';
 
 // Mock Electron modules
@@ -27,6 +27,10 @@ jest.mock('@subzilla/core', () => ({
     SubtitleProcessor: jest.fn(),
     BatchProcessor: jest.fn(),
     ConfigManager: jest.fn(),
+    FormatSniffer: {
+        sniffFile: jest.fn(),
+        MIN_CONFIDENCE: 0.8,
+    },
 }));
 
 // Mock preferences
@@ -140,7 +144,10 @@ describe('IPC Handlers', () => {
             expect(dialog.showOpenDialog).toHaveBeenCalledWith({
                 title: 'Select Subtitle Files',
                 filters: [
-                    { name: 'Subtitle Files', extensions: ['srt', 'sub', 'ass', 'ssa', 'txt'] },
+                    {
+                        name: 'Subtitle Files',
+                        extensions: ['srt', 'sub', 'smi', 'ass', 'ssa', 'vtt', 'ttml', 'dfxp', 'txt'],
+                    },
                     { name: 'All Files', extensions: ['*'] },
                 ],
                 properties: ['openFile', 'multiSelections'],
@@ -180,15 +187,37 @@ describe('IPC Handlers', () => {
                 '/path/to/file.sub',
                 '/path/to/file.ass',
                 '/path/to/file.ssa',
+                '/path/to/file.vtt',
+                '/path/to/file.smi',
+                '/path/to/file.ttml',
+                '/path/to/file.dfxp',
                 '/path/to/file.txt',
             ];
 
             const result = (await handler({}, filePaths)) as { validFiles: string[]; invalidFiles: string[] };
 
-            expect(result.validFiles).toHaveLength(5);
+            expect(result.validFiles).toHaveLength(9);
             expect(result.invalidFiles).toHaveLength(0);
         });
 
+        it('should accept other extensions when the content is a subtitle format', async () => {
+            const { setupIPC } = await import('../../src/main/ipc');
+
+            setupIPC(mockAppInstance);
+
+            (FormatSniffer.sniffFile as jest.Mock).mockImplementation((...args: unknown[]) =>
+                Promise.resolve(args[0] === '/path/to/captions.xml' ? { format: 'ttml', confidence: 1 } : null),
+            );
+
+            const handler = getHandler('validate-files');
+            const filePaths = ['/path/to/captions.xml', '/path/to/notes.xml'];
+
+            const result = (await handler({}, filePaths)) as { validFiles: string[]; invalidFiles: string[] };
+
+            expect(result.validFiles).toEqual(['/path/to/captions.xml']);
+            expect(result.invalidFiles).toEqual(['/path/to/notes.xml']);
+        });
+
         it('should handle mixed case file extensions', async () => {
             const { setupIPC } = await import('../../src/main/ipc');
 
@@ -422,6 +451,7 @@ describe('IPC Handlers', () => {
             setupIPC(mockAppInstance);
 
             mockConfigMapper.getConfig.mockResolvedValue({
+                input: { encoding: 'windows1256' },
                 output: { encoding: 'utf8' },
                 batch: { parallel: true, chunkSize: 5 },
             });
@@ -454,7 +484,7 @@ describe('IPC Handlers', () => {
                 expect.objectContaining({
                     common: expect.objectContaining({
                         backupOriginal: true,
-                        encoding: 'utf8',
+                        encoding: 'windows1256',
                     }),
                 }),
             );
@@ -1,6 +1,6 @@
 import { describe, it, expect, beforeEach, jest } from '@jest/globals';
 
-import { IConfig, IStripOptions } from '@subzilla/types';
+import { IArabicOptions, IConfig, IStripOptions } from '@subzilla/types';
 
 // Mock electron-store
 const mockStoreInstance = {
@@ -39,7 +39,7 @@ interface IConfigMapper {
     getConfigPath: () => string;
     getStore: () => unknown;
     getDefaultConfigData: () => IConfig & { app: IMacAppPreferences };
-    getFormattingPresets: () => Record<string, IStripOptions>;
+    getFormattingPresets: () => Record<string, IStripOptions & { arabic?: IArabicOptions }>;
 }
 
 describe('ConfigMapper - Preferences Management', () => {
@@ -117,6 +117,23 @@ describe('ConfigMapper - Preferences Management', () => {
             );
         });
 
+        it('should clear the SRT output format earlier versions saved by default', () => {
+            const Store = require('electron-store') as jest.Mock;
+            const { migrations } = Store.mock.calls[0][0] as {
+                migrations: Record<string, (store: { get: jest.Mock; set: jest.Mock }) => void>;
+            };
+            const saved = { get: jest.fn(() => ({ format: 'srt', bom: true })), set: jest.fn() };
+            const chosen = { get: jest.fn(() => ({ format: 'vtt' })), set: jest.fn() };
+
+            Object.values(migrations).forEach((migrate) => {
+                migrate(saved);
+                migrate(chosen);
+            });
+
+            expect(saved.set).toHaveBeenCalledWith('output', { bom: true });
+            expect(chosen.set).not.toHaveBeenCalled();
+        });
+
         it('should have correct default configuration', () => {
             const defaults = configMapper.getDefaultConfigData();
 
@@ -280,6 +297,14 @@ describe('ConfigMapper - Preferences Management', () => {
             expect(arabicOptimized.html).toBe(true);
             expect(arabicOptimized.bidiControl).toBe(true);
             expect(arabicOptimized.punctuation).toBe(false);
+            expect(arabicOptimized.arabic).toEqual({ normalize: true, removeTashkeel: false, punctuation: true });
+        });
+
+        it('should leave Arabic normalization to the Arabic Optimized preset', () => {
+            const presets = configMapper.getFormattingPresets();
+
+            expect(presets['Deep Clean'].arabic).toBeUndefined();
+            expect(presets['Maximum Clean'].arabic).toBeUndefined();
         });
 
         it('should have Maximum Clean preset with safe options enabled (no timestamps/numbers/punctuation/brackets to prevent file corruption)', () => {
@@ -2,7 +2,7 @@ import path from 'path';
 
 import { ipcMain, dialog, shell, app } from 'electron';
 
-import { SubtitleProcessor, BatchProcessor } from '@subzilla/core';
+import { SubtitleProcessor, BatchProcessor, FormatSniffer } from '@subzilla/core';
 import { IConfig, IConvertOptions, IBatchStats } from '@subzilla/types';
 
 import { ConfigMapper } from './preferences';
@@ -39,7 +39,10 @@ export function setupIPC(appInstance: {
         const result = await dialog.showOpenDialog({
             title: 'Select Subtitle Files',
             filters: [
-                { name: 'Subtitle Files', extensions: ['srt', 'sub', 'ass', 'ssa', 'txt'] },
+                {
+                    name: 'Subtitle Files',
+                    extensions: ['srt', 'sub', 'smi', 'ass', 'ssa', 'vtt', 'ttml', 'dfxp', 'txt'],
+                },
                 { name: 'All Files', extensions: ['*'] },
             ],
             properties: ['openFile', 'multiSelections'],
@@ -57,8 +60,11 @@ export function setupIPC(appInstance: {
             const ext = path.extname(filePath).toLowerCase();
             const fileName = path.basename(filePath);
 
-            // Check if it's a supported file type
-            if (['.srt', '.sub', '.ass', '.ssa', '.txt'].includes(ext)) {
+            // Check if it's a supported file type; other extensions count when the content is a known format
+            if (
+                ['.srt', '.sub', '.smi', '.ass', '.ssa', '.vtt', '.ttml', '.dfxp', '.txt'].includes(ext) ||
+                (await looksLikeSubtitles(filePath))
+            ) {
                 // Skip files that are already processed (contain .subzilla. in the name)
                 if (fileName.includes('.subzilla.')) {
                     console.log(`⏭️ Skipping already processed file: ${fileName}`);
@@ -95,7 +101,23 @@ export function setupIPC(appInstance: {
             const processOptions: IConvertOptions = {
                 ...config.output,
                 ...(config.strip && { strip: config.strip }),
-                // Map config field names to processor option names
+                ...(config.arabic && { arabic: config.arabic }),
+                ...(config.rtl && { rtl: config.rtl }),
+                replace: config.replace,
+                // Map config field names to processor option names; `encoding` is the input's, not output.encoding
+                encoding: config.input?.encoding,
+                outputEncoding: config.output?.encoding,
+                encodingOverrides: config.input?.encodingOverrides,
+                minConfidence: config.input?.minConfidence,
+                lowConfidence: config.input?.lowConfidence,
+                fixMojibake: config.input?.fixMojibake,
+                mixedEncodings: config.input?.mixedEncodings,
+                invalidBytes: config.input?.invalidBytes,
+                detectionSampleSize: config.input?.detectionSampleSize,
+                inputFormat: config.input?.format,
+                outputFormat: config.output?.format,
+                fps: config.input?.fps,
+                language: config.input?.language,
                 backupOriginal: config.output?.createBackup ?? false,
                 overwriteBackup: config.output?.overwriteBackup ?? true,
                 ...options,
@@ -109,6 +131,7 @@ export function setupIPC(appInstance: {
                 success: true,
                 outputPath: result.outputPath,
                 backupPath: result.backupPath,
+                decodeQuality: result.decodeQuality,
             };
         } catch (error) {
             console.error(`❌ Error processing file ${filePath}:`, error);
@@ -130,7 +153,23 @@ export function setupIPC(appInstance: {
                 common: {
                     ...config.output,
                     ...(config.strip && { strip: config.strip }),
-                    // Map config field names to processor option names
+                    ...(config.arabic && { arabic: config.arabic }),
+                    ...(config.rtl && { rtl: config.rtl }),
+                    replace: config.replace,
+                    // Map config field names to processor option names; `encoding` is the input's, not output.encoding
+                    encoding: config.input?.encoding,
+                    outputEncoding: config.output?.encoding,
+                    encodingOverrides: config.input?.encodingOverrides,
+                    minConfidence: config.input?.minConfidence,
+                    lowConfidence: config.input?.lowConfidence,
+                    fixMojibake: config.input?.fixMojibake,
+                    mixedEncodings: config.input?.mixedEncodings,
+                    invalidBytes: config.input?.invalidBytes,
+                    detectionSampleSize: config.input?.detectionSampleSize,
+                    inputFormat: config.input?.format,
+                    outputFormat: config.output?.format,
+                    fps: config.input?.fps,
+                    language: config.input?.language,
                     backupOriginal: config.output?.createBackup ?? false,
                     overwriteBackup: config.output?.overwriteBackup ?? true,
                     ...options,
@@ -141,6 +180,7 @@ export function setupIPC(appInstance: {
                     skipExisting: config.batch?.skipExisting ?? false,
                     chunkSize: config.batch?.chunkSize ?? 5,
                     preserveStructure: false,
+                    encodingConsensus: config.batch?.encodingConsensus,
                 },
             };
 
@@ -249,3 +289,13 @@ export function setupIPC(appInstance: {
 
     console.log('✅ IPC handlers setup complete');
 }
+
+async function looksLikeSubtitles(filePath: string): Promise<boolean> {
+    try {
+        const sniffed = await FormatSniffer.sniffFile(filePath);
+
+        return Boolean(sniffed && sniffed.confidence >= FormatSniffer.MIN_CONFIDENCE);
+    } catch {
+        return false;
+    }
+}
@@ -4,7 +4,7 @@ import path from 'path';
 import Store from 'electron-store';
 
 import { ConfigManager } from '@subzilla/core';
-import { IConfig, IStripOptions } from '@subzilla/types';
+import { IArabicOptions, IConfig, IStripOptions } from '@subzilla/types';
 
 export interface IMacAppPreferences {
     // Application-specific preferences
@@ -24,6 +24,13 @@ export interface IMacAppPreferences {
     };
 }
 
+/**
+ * Strip options a preset applies, and for the Arabic preset the Arabic normalization pass
+ */
+export interface IFormattingPreset extends IStripOptions {
+    arabic?: IArabicOptions;
+}
+
 export class ConfigMapper {
     private store: Store<IConfig & { app: IMacAppPreferences }>;
     private rcConfig: IConfig | null = null;
@@ -34,12 +41,33 @@ export class ConfigMapper {
         this.store = new Store({
             name: 'preferences',
             defaults: this.getDefaultConfig(),
+            migrations: {
+                // Earlier versions always saved output.format as 'srt' without using it; now that it
+                // converts files, clear that leftover so .ass and .vtt files keep their format
+                '1.0.0': (store): void => {
+                    const output = { ...store.get('output') };
+
+                    if (output.format === 'srt') {
+                        delete output.format;
+                        store.set('output', output);
+                    }
+                },
+            },
             schema: {
                 input: {
                     type: 'object',
                     properties: {
                         encoding: { type: 'string' },
+                        encodingOverrides: { type: 'object' },
+                        minConfidence: { type: 'number' },
+                        lowConfidence: { type: 'string' },
+                        fixMojibake: { type: 'boolean' },
+                        mixedEncodings: { type: 'boolean' },
+                        invalidBytes: { type: 'string' },
+                        detectionSampleSize: { type: 'number' },
                         format: { type: 'string' },
+                        fps: { type: 'number' },
+                        language: { type: 'string' },
                     },
                 },
                 output: {
@@ -50,6 +78,7 @@ export class ConfigMapper {
                         overwriteBackup: { type: 'boolean' },
                         format: { type: 'string' },
                         encoding: { type: 'string' },
+                        unrepresentable: { type: 'string' },
                         bom: { type: 'boolean' },
                         lineEndings: { type: 'string' },
                         overwriteInput: { type: 'boolean' },
@@ -69,6 +98,27 @@ export class ConfigMapper {
                         emojis: { type: 'boolean' },
                         brackets: { type: 'boolean' },
                         bidiControl: { type: 'boolean' },
+                        hearingImpaired: { type: ['boolean', 'object'] },
+                    },
+                },
+                replace: {
+                    type: 'array',
+                    items: { type: 'object' },
+                },
+                arabic: {
+                    type: 'object',
+                    properties: {
+                        normalize: { type: 'boolean' },
+                        removeTashkeel: { type: 'boolean' },
+                        punctuation: { type: 'boolean' },
+                    },
+                },
+                rtl: {
+                    type: 'object',
+                    properties: {
+                        visualOrder: { type: 'boolean' },
+                        fixPunctuation: { type: 'boolean' },
+                        markers: { type: 'string' },
                     },
                 },
                 batch: {
@@ -80,6 +130,7 @@ export class ConfigMapper {
                         maxDepth: { type: 'number' },
                         preserveStructure: { type: 'boolean' },
                         chunkSize: { type: 'number' },
+                        encodingConsensus: { type: 'boolean' },
                         retryCount: { type: 'number' },
                         retryDelay: { type: 'number' },
                         failFast: { type: 'boolean' },
@@ -381,7 +432,7 @@ export class ConfigMapper {
     }
 
     // Preset management for quick formatting options
-    public getFormattingPresets(): Record<string, IStripOptions> {
+    public getFormattingPresets(): Record<string, IFormattingPreset> {
         return {
             None: {
                 html: false,
@@ -412,11 +463,11 @@ export class ConfigMapper {
                 colors: true,
                 styles: true,
                 urls: true,
-                timestamps: false, // NEVER strip - corrupts SRT structure
-                numbers: false, // NEVER strip - corrupts SRT sequence numbers
-                punctuation: false, // NEVER strip - removes : , --> from timestamps
+                timestamps: false,
+                numbers: false,
+                punctuation: false,
                 emojis: false,
-                brackets: false, // NEVER strip - could affect subtitle structure
+                brackets: false,
                 bidiControl: true,
             },
             'Arabic Optimized': {
@@ -430,17 +481,22 @@ export class ConfigMapper {
                 emojis: false,
                 brackets: false,
                 bidiControl: true,
+                arabic: {
+                    normalize: true,
+                    removeTashkeel: false,
+                    punctuation: true,
+                },
             },
             'Maximum Clean': {
                 html: true,
                 colors: true,
                 styles: true,
                 urls: true,
-                timestamps: false, // NEVER strip - corrupts SRT structure
-                numbers: false, // NEVER strip - corrupts SRT sequence numbers
-                punctuation: false, // NEVER strip - removes : , --> from timestamps
+                timestamps: false,
+                numbers: false,
+                punctuation: false,
                 emojis: true,
-                brackets: false, // NEVER strip - could affect subtitle structure
+                brackets: false,
                 bidiControl: true,
             },
         };
@@ -498,7 +498,7 @@ class DragDropHandler {
     }
 
     isValidSubtitle(filePath) {
-        const validExtensions = ['.srt', '.sub', '.ass', '.ssa', '.txt'];
+        const validExtensions = ['.srt', '.sub', '.smi', '.ass', '.ssa', '.vtt', '.ttml', '.dfxp', '.txt'];
         const ext = filePath.toLowerCase().split('.').pop();
         return validExtensions.includes(`.${ext}`);
     }
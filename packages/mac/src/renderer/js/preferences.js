@@ -40,9 +40,12 @@ class PreferencesApp {
         this.stripEmojis = document.getElementById('strip-emojis');
         this.stripBrackets = document.getElementById('strip-brackets');
         this.stripBidiControl = document.getElementById('strip-bidi-control');
+        this.arabicNormalize = document.getElementById('arabic-normalize');
+        this.arabicRemoveTashkeel = document.getElementById('arabic-remove-tashkeel');
 
         // Output tab
         this.outputEncoding = document.getElementById('output-encoding');
+        this.outputUnrepresentable = document.getElementById('output-unrepresentable');
         this.outputBom = document.getElementById('output-bom');
         this.lineEndings = document.getElementById('line-endings');
         this.outputFormat = document.getElementById('output-format');
@@ -100,7 +103,10 @@ class PreferencesApp {
             this.stripEmojis,
             this.stripBrackets,
             this.stripBidiControl,
+            this.arabicNormalize,
+            this.arabicRemoveTashkeel,
             this.outputEncoding,
+            this.outputUnrepresentable,
             this.outputBom,
             this.lineEndings,
             this.outputFormat,
@@ -202,11 +208,15 @@ class PreferencesApp {
             this.stripBidiControl.checked = this.config.strip.bidiControl ?? true;
         }
 
+        this.arabicNormalize.checked = this.config.arabic?.normalize ?? false;
+        this.arabicRemoveTashkeel.checked = this.config.arabic?.removeTashkeel ?? false;
+
         // Output tab
         this.outputEncoding.value = this.config.output?.encoding ?? 'utf8';
+        this.outputUnrepresentable.value = this.config.output?.unrepresentable ?? 'fail';
         this.outputBom.checked = this.config.output?.bom ?? true;
         this.lineEndings.value = this.config.output?.lineEndings ?? 'auto';
-        this.outputFormat.value = this.config.output?.format ?? 'srt';
+        this.outputFormat.value = this.config.output?.format ?? '';
         this.overwriteExisting.checked = this.config.output?.overwriteExisting ?? false;
 
         // Processing tab
@@ -227,11 +237,12 @@ class PreferencesApp {
             },
             output: {
                 encoding: this.outputEncoding.value,
+                unrepresentable: this.outputUnrepresentable.value,
                 createBackup: this.createBackup.checked,
                 overwriteBackup: this.overwriteBackup.checked,
                 bom: this.outputBom.checked,
                 lineEndings: this.lineEndings.value,
-                format: this.outputFormat.value,
+                format: this.outputFormat.value || undefined,
                 overwriteInput: this.overwriteInput.checked,
                 overwriteExisting: this.overwriteExisting.checked,
             },
@@ -247,6 +258,11 @@ class PreferencesApp {
                 brackets: this.stripBrackets.checked,
                 bidiControl: this.stripBidiControl.checked,
             },
+            arabic: {
+                normalize: this.arabicNormalize.checked,
+                removeTashkeel: this.arabicRemoveTashkeel.checked,
+                punctuation: this.arabicNormalize.checked,
+            },
             batch: {
                 recursive: false,
                 parallel: this.parallelProcessing.checked,
@@ -277,6 +293,7 @@ class PreferencesApp {
                 emojis: false,
                 brackets: false,
                 bidiControl: false,
+                arabicNormalize: false,
             },
             'Basic Clean': {
                 html: true,
@@ -289,18 +306,20 @@ class PreferencesApp {
                 emojis: false,
                 brackets: false,
                 bidiControl: true,
+                arabicNormalize: false,
             },
             'Deep Clean': {
                 html: true,
                 colors: true,
                 styles: true,
                 urls: true,
-                timestamps: false, // NEVER strip - corrupts SRT structure
-                numbers: false, // NEVER strip - corrupts SRT sequence numbers
-                punctuation: false, // NEVER strip - removes : , --> from timestamps
+                timestamps: false,
+                numbers: false,
+                punctuation: false,
                 emojis: false,
-                brackets: false, // NEVER strip - could affect subtitle structure
+                brackets: false,
                 bidiControl: true,
+                arabicNormalize: false,
             },
             'Arabic Optimized': {
                 html: true,
@@ -313,18 +332,20 @@ class PreferencesApp {
                 emojis: false,
                 brackets: false,
                 bidiControl: true,
+                arabicNormalize: true,
             },
             'Maximum Clean': {
                 html: true,
                 colors: true,
                 styles: true,
                 urls: true,
-                timestamps: false, // NEVER strip - corrupts SRT structure
-                numbers: false, // NEVER strip - corrupts SRT sequence numbers
-                punctuation: false, // NEVER strip - removes : , --> from timestamps
+                timestamps: false,
+                numbers: false,
+                punctuation: false,
                 emojis: true,
-                brackets: false, // NEVER strip - could affect subtitle structure
+                brackets: false,
                 bidiControl: true,
+                arabicNormalize: false,
             },
         };
 
@@ -341,6 +362,7 @@ class PreferencesApp {
             this.stripEmojis.checked = preset.emojis;
             this.stripBrackets.checked = preset.brackets;
             this.stripBidiControl.checked = preset.bidiControl;
+            this.arabicNormalize.checked = preset.arabicNormalize;
 
             this.updatePresetButtons();
             this.markChanged();
@@ -359,6 +381,7 @@ class PreferencesApp {
             emojis: this.stripEmojis.checked,
             brackets: this.stripBrackets.checked,
             bidiControl: this.stripBidiControl.checked,
+            arabicNormalize: this.arabicNormalize.checked,
         };
 
         // Check which preset matches current settings
@@ -379,6 +402,7 @@ class PreferencesApp {
                 emojis: false,
                 brackets: false,
                 bidiControl: false,
+                arabicNormalize: false,
             },
             'Basic Clean': {
                 html: true,
@@ -391,6 +415,7 @@ class PreferencesApp {
                 emojis: false,
                 brackets: false,
                 bidiControl: true,
+                arabicNormalize: false,
             },
             'Deep Clean': {
                 html: true,
@@ -403,6 +428,7 @@ class PreferencesApp {
                 emojis: false,
                 brackets: false,
                 bidiControl: true,
+                arabicNormalize: false,
             },
             'Arabic Optimized': {
                 html: true,
@@ -415,6 +441,7 @@ class PreferencesApp {
                 emojis: false,
                 brackets: false,
                 bidiControl: true,
+                arabicNormalize: true,
             },
             'Maximum Clean': {
                 html: true,
@@ -427,6 +454,7 @@ class PreferencesApp {
                 emojis: true,
                 brackets: false,
                 bidiControl: true,
+                arabicNormalize: false,
             },
         };
 
@@ -1,4 +1,5 @@
 import { IConfig } from '../core/config';
+import { TOutputFormat } from '../core/subtitle';
 
 /**
  * Options for the strip command
@@ -14,6 +15,9 @@ export interface IStripCommandOptions {
     stripEmojis?: boolean;
     stripBrackets?: boolean;
     stripBidiControl?: boolean;
+    stripSdh?: boolean;
+    /** SDH annotations to strip, as a comma-separated list: `brackets,music`; implies `stripSdh` */
+    sdhParts?: string;
     stripAll?: boolean;
 }
 
@@ -21,6 +25,22 @@ export interface IStripCommandOptions {
  * Base options for all commands
  */
 interface IBaseCommandOptions extends IStripCommandOptions {
+    to?: TOutputFormat;
+    encoding?: string;
+    minConfidence?: string;
+    lowConfidence?: 'warn' | 'fail';
+    fixMojibake?: boolean;
+    mixedEncodings?: boolean;
+    invalidBytes?: 'ignore' | 'warn' | 'fail';
+    detectionSampleSize?: string;
+    /** YAML or JSON file of replace rules, applied after the config's own */
+    rules?: string;
+    fixVisualOrder?: boolean;
+    fixRtlPunctuation?: boolean;
+    /** `rlm` or `rle` */
+    rtlMarkers?: string;
+    fps?: string;
+    language?: string;
     backup?: boolean;
     overwriteBackup?: boolean;
     loadedConfig?: IConfig;
@@ -31,6 +51,8 @@ interface IBaseCommandOptions extends IStripCommandOptions {
  */
 export interface IConvertCommandOptions extends IBaseCommandOptions {
     output?: string;
+    outputEncoding?: string;
+    unrepresentable?: 'fail' | 'replace' | 'transliterate';
     bom?: boolean;
     lineEndings?: 'lf' | 'crlf' | 'auto';
     overwriteInput?: boolean;
@@ -52,6 +74,7 @@ export interface IBatchCommandOptions extends IConvertCommandOptions {
     excludeDirs?: string[];
     preserveStructure?: boolean;
     chunkSize?: number;
+    encodingConsensus?: boolean;
 }
 
 export interface IInfoCommandOptions {
@@ -1,3 +1,5 @@
+import { IDecodeQuality } from './encoding';
+
 /**
  * Statistics for batch processing
  */
@@ -6,7 +8,13 @@ export interface IBatchStats {
     successful: number;
     failed: number;
     skipped: number;
-    errors: Array<{ file: string; error: string }>;
+    /**
+     * Files that could not be processed, and under `invalidBytes: 'warn'` files written from a
+     * lossy decode, which carry its counts and stay counted as successful
+     */
+    errors: Array<{ file: string; error: string; decodeQuality?: IDecodeQuality }>;
+    /** Under `encodingConsensus`, files read with their directory's encoding instead of their own unsure guess */
+    consensusOverrides?: Array<{ file: string; detected: string; confidence: number; encoding: string }>;
     timeTaken: number;
     averageTimePerFile: number;
     directoriesProcessed: number;
@@ -1,25 +1,93 @@
-import { IStripOptions } from './options';
+import { TInvalidBytesPolicy, TLowConfidencePolicy, TUnrepresentablePolicy } from './encoding';
+import { IArabicOptions, IReplaceRule, IRtlOptions, IStripOptions } from './options';
+import { TInputFormat, TOutputFormat } from './subtitle';
+
+/**
+ * Encodings `input.encoding` accepts; `auto` detects the encoding from the content
+ */
+export type TInputEncoding =
+    | 'auto'
+    | 'utf8'
+    | 'utf16le'
+    | 'utf16be'
+    | 'utf32le'
+    | 'utf32be'
+    | 'ascii'
+    | 'windows1250'
+    | 'windows1251'
+    | 'windows1252'
+    | 'windows1253'
+    | 'windows1254'
+    | 'windows1255'
+    | 'windows1256'
+    | 'windows1257'
+    | 'windows1258'
+    | 'iso88591'
+    | 'iso88592'
+    | 'iso88595'
+    | 'iso88596'
+    | 'iso88597'
+    | 'iso88598'
+    | 'iso88599'
+    | 'iso885915'
+    | 'koi8r'
+    | 'koi8u'
+    | 'gb18030'
+    | 'gbk'
+    | 'big5'
+    | 'shiftjis'
+    | 'eucjp'
+    | 'euckr';
 
 /**
  * Main configuration interface for the application
  */
 export interface IConfig {
     input?: {
-        encoding?: 'auto' | 'utf8' | 'utf16le' | 'utf16be' | 'ascii' | 'windows1256';
-        format?: 'auto' | 'srt' | 'sub' | 'ass' | 'ssa' | 'txt';
+        /** Encoding to decode input with; anything but `auto` skips detection */
+        encoding?: TInputEncoding;
+        /** Encodings pinned per glob (`"downloads/arabic/**": windows1256`); the first match beats `encoding` */
+        encodingOverrides?: Record<string, TInputEncoding>;
+        /** Detection confidence (0 to 1) below which `lowConfidence` applies; unset never complains */
+        minConfidence?: number;
+        lowConfidence?: TLowConfidencePolicy;
+        /** Undo double-encoded text ("Ø§Ù„" for "ال") left by other converters */
+        fixMojibake?: boolean;
+        /** Detect the encoding cue by cue, for files merged from differently encoded sources */
+        mixedEncodings?: boolean;
+        /** Ignore, warn about or fail on a lossy decode (invalid bytes, stray control characters) */
+        invalidBytes?: TInvalidBytesPolicy;
+        /** Bytes of large files encoding detection looks at; 0 reads them whole */
+        detectionSampleSize?: number;
+        format?: TInputFormat;
+        /** Frame rate for MicroDVD (.sub) files */
+        fps?: number;
+        /**
+         * Subtitle language (e.g. `ko`); picks the SAMI language track, labels TTML output and,
+         * for Arabic, Cyrillic, Greek, Hebrew and Turkish, picks between the codepages they are written in;
+         * for Vietnamese (`vi`), also recognises the VNI and TCVN3 font encodings
+         */
+        language?: string;
     };
     output?: {
         directory?: string;
         createBackup?: boolean;
         overwriteBackup?: boolean;
-        format?: 'srt' | 'sub' | 'ass' | 'ssa' | 'txt';
-        encoding?: 'utf8';
+        format?: TOutputFormat;
+        /** Encoding to write (any name iconv-lite knows, e.g. `windows1256`, `utf16le`) */
+        encoding?: string;
+        /** What to do with characters `encoding` cannot represent */
+        unrepresentable?: TUnrepresentablePolicy;
         bom?: boolean;
         lineEndings?: 'lf' | 'crlf' | 'auto';
         overwriteInput?: boolean;
         overwriteExisting?: boolean;
     };
     strip?: IStripOptions;
+    arabic?: IArabicOptions;
+    /** Find/replace rules, applied in order to every file after stripping */
+    replace?: IReplaceRule[];
+    rtl?: IRtlOptions;
     batch?: {
         recursive?: boolean;
         parallel?: boolean;
@@ -29,6 +97,8 @@ export interface IConfig {
         excludeDirectories?: string[];
         preserveStructure?: boolean;
         chunkSize?: number;
+        /** Read unsure files with the encoding most of their directory shares */
+        encodingConsensus?: boolean;
         retryCount?: number;
         retryDelay?: number;
         failFast?: boolean;
@@ -0,0 +1,126 @@
+/**
+ * Where a detected encoding came from: a byte order mark, chardet's statistics,
+ * scoring decodings against the language hint, or the caller
+ */
+export type TEncodingSource = 'bom' | 'heuristic' | 'language' | 'override';
+
+/**
+ * What to do when detection is less sure than `minConfidence`
+ */
+export type TLowConfidencePolicy = 'warn' | 'fail';
+
+/**
+ * What to do with characters the output encoding cannot represent: fail, write `?`,
+ * or write the nearest thing it has (`“` as `"`, `é` as `e`, `ﻻ` as `لا`)
+ */
+export type TUnrepresentablePolicy = 'fail' | 'replace' | 'transliterate';
+
+/**
+ * What to do when decoding the input was lossy: invalid bytes, or control characters
+ * that suggest the wrong encoding was used
+ */
+export type TInvalidBytesPolicy = 'ignore' | 'warn' | 'fail';
+
+/**
+ * Encodings Vietnamese text was written in before Unicode: the windows codepage,
+ * and the VNI and TCVN3 (ABC) font encodings that look like windows-1252
+ */
+export type TVietnameseEncoding = 'windows-1258' | 'vni' | 'tcvn3';
+
+export interface IEncodingDetectionOptions {
+    /** An encoding chosen by the caller; reported as certain without reading the file */
+    override?: string;
+    /** Subtitle language (e.g. `ar`); codepages for its script are tried and scored by the text they produce */
+    language?: string;
+    /** Bytes of large inputs to rank encodings on, taken from their head, middle and tail; 0 reads everything. Defaults to 512 KiB */
+    sampleSize?: number;
+}
+
+export interface IEncodingCandidate {
+    encoding: string;
+    /** 0 to 1; for the `language` source, the share of decoded characters that are valid text in its script */
+    confidence: number;
+}
+
+/**
+ * Result of encoding detection, with every candidate chardet considered
+ */
+export interface IEncodingDetection {
+    /** The encoding to decode with; the first candidate, or UTF-8 when there is none */
+    encoding: string;
+    /** 0 to 1; BOMs, overrides and plain ASCII are certain */
+    confidence: number;
+    source: TEncodingSource;
+    /** Best first, one per encoding */
+    candidates: IEncodingCandidate[];
+}
+
+/**
+ * The encoding a group of files (a season folder, say) shares, for reading the
+ * few whose own detection is unsure
+ */
+export interface IEncodingConsensus {
+    /** The encoding most confidently detected files share, or null when none has a majority */
+    encoding: string | null;
+    /** Files detected with at least `minConfidence`, leaving out BOMs and plain ASCII */
+    voters: number;
+    /** How many of the voters detected `encoding` */
+    agreeing: number;
+    /** Each readable file's own detection */
+    detections: Record<string, IEncodingDetection>;
+    /** Files detected as something else with less than `minConfidence`, to be read with `encoding` */
+    outliers: string[];
+}
+
+/**
+ * A stretch of a file merged from differently encoded sources, decoded with one encoding
+ */
+export interface IEncodingSegment {
+    encoding: string;
+    /** Byte offset of the first byte */
+    start: number;
+    /** Byte offset just past the last byte */
+    end: number;
+    /** First blank-line separated block covered, from 1; in SRT each block is a cue */
+    firstCue: number;
+    lastCue: number;
+}
+
+/**
+ * What decoding the input produced beyond text: signs bytes were lost or misread
+ */
+export interface IDecodeQuality {
+    /** U+FFFD written for bytes invalid in the encoding */
+    replacements: number;
+    /** C0 controls other than tab and line breaks, and DEL */
+    controls: number;
+    /** C1 controls (U+0080 to U+009F), usually windows codepage text read as ISO-8859 */
+    c1Controls: number;
+    /** Line of the first of any of them, from 1 */
+    line?: number;
+}
+
+/**
+ * Result of undoing mojibake: UTF-8 text another tool decoded with a legacy codepage and saved again
+ */
+export interface IMojibakeRepair {
+    text: string;
+    /** How many wrong decodes were undone; 0 when the text was clean */
+    rounds: number;
+    /** Runs of characters repaired, over all rounds */
+    repairs: number;
+    /** The codepage undone in each round, outermost first */
+    codepages: string[];
+}
+
+/**
+ * A character the output encoding cannot represent
+ */
+export interface IUnrepresentableChar {
+    char: string;
+    count: number;
+    /** Line of the first occurrence, from 1 */
+    line: number;
+    /** What was written instead; empty when the character was dropped */
+    replacement: string;
+}
@@ -1,3 +1,20 @@
+import { IEncodingDetection, TInvalidBytesPolicy, TLowConfidencePolicy, TUnrepresentablePolicy } from './encoding';
+import { TInputFormat, TOutputFormat } from './subtitle';
+
+/**
+ * Which hearing-impaired (SDH) annotations to remove; unset parts are kept
+ */
+export interface IHearingImpairedOptions {
+    /** Sound descriptions in square brackets: `[DOOR SLAMS]` */
+    brackets?: boolean;
+    /** Descriptions in parentheses: `(laughs)` */
+    parentheses?: boolean;
+    /** Lyrics between music notes, and the notes themselves: `♪ la la ♪` */
+    music?: boolean;
+    /** Capitalised speaker labels opening a line: `JOHN:`, `- DR. SMITH:` */
+    speakers?: boolean;
+}
+
 /**
  * Base options for stripping content from subtitles
  */
@@ -12,17 +29,126 @@ export interface IStripOptions {
     emojis?: boolean;
     brackets?: boolean;
     bidiControl?: boolean;
+    /** Remove SDH annotations from cue text, dropping cues left empty and renumbering the rest; `true` removes them all */
+    hearingImpaired?: boolean | IHearingImpairedOptions;
+}
+
+/**
+ * Arabic normalizations, each off unless turned on
+ */
+export interface IArabicOptions {
+    /** Map presentation forms (U+FB50–U+FEFF, e.g. `ﻻ`) back to base letters and remove tatweel (`ـ`) */
+    normalize?: boolean;
+    /** Remove tashkeel: harakat, tanwin, shadda, sukun and the superscript alef */
+    removeTashkeel?: boolean;
+    /** Turn the Latin `,` `;` `?` legacy tools wrote after Arabic words into `،` `؛` `؟` */
+    punctuation?: boolean;
+}
+
+/**
+ * Bidi controls added around right-to-left lines: a right-to-left mark (U+200F) before
+ * each, or a right-to-left embedding (U+202B) closed by a pop (U+202C)
+ */
+export type TRtlMarkers = 'rlm' | 'rle';
+
+/**
+ * Fixes for right-to-left (Arabic, Hebrew, Persian) lines, each off unless turned on
+ */
+export interface IRtlOptions {
+    /** Reverse lines stored in visual order (characters backwards) back to logical order, before anything else reads them */
+    visualOrder?: boolean;
+    /** Move punctuation stored at the wrong end of right-to-left lines (`.مرحبا`, `שלום -`) back where it belongs */
+    fixPunctuation?: boolean;
+    /** Wrap right-to-left lines in bidi controls for players that need them */
+    markers?: TRtlMarkers;
+}
+
+/**
+ * How many right-to-left lines read as stored in visual order, characters reversed
+ */
+export interface IVisualOrderDetection {
+    /** Right-to-left lines with letters that tell the order apart */
+    lines: number;
+    /** How many of them read backwards */
+    reversed: number;
+    /** Line of the first reversed one, from 1 */
+    line?: number;
+}
+
+/**
+ * Where a replace rule applies: each cue's text, or the whole written file (headers and timings too)
+ */
+export type TReplaceScope = 'text' | 'all';
+
+/**
+ * A find/replace rule, e.g. removing "Subtitled by X" or unifying a character's name
+ */
+export interface IReplaceRule {
+    /** JavaScript regular expression source */
+    pattern: string;
+    /** Flags besides `g`, which is always set (e.g. `i`, `u`, `m`) */
+    flags?: string;
+    /** Replacement, with `$1` or `$<name>` for groups; empty (the default) deletes the match */
+    replacement?: string;
+    /** `text` (the default) or `all` */
+    scope?: TReplaceScope;
+    /** Only apply to subtitles in this language (`ar` also matches `ar-EG`) */
+    language?: string;
 }
 
 /**
  * Base options for subtitle processing
  */
 export interface IConvertOptions {
+    /** Encoding to decode input with (any name iconv-lite knows); unset or `auto` detects it */
+    encoding?: string;
+    /** Encodings pinned per glob; the first pattern the input path matches beats `encoding` */
+    encodingOverrides?: Record<string, string>;
+    /** Detection confidence (0 to 1) below which `lowConfidence` applies; forced encodings are never checked */
+    minConfidence?: number;
+    /** Warn (the default) or fail when detection is below `minConfidence` */
+    lowConfidence?: TLowConfidencePolicy;
+    /** Undo UTF-8 that another tool decoded with a legacy codepage and saved again ("Ø§Ù„" for "ال") */
+    fixMojibake?: boolean;
+    /** Detect the encoding cue by cue, for files merged from differently encoded sources; ignored when the encoding is forced */
+    mixedEncodings?: boolean;
+    /** Ignore, warn about (the default) or fail on invalid bytes and stray control characters after decoding */
+    invalidBytes?: TInvalidBytesPolicy;
+    /** Bytes of large inputs to detect the encoding from, in lines from their head, middle and tail; 0 uses all of it. Defaults to 512 KiB */
+    detectionSampleSize?: number;
+    /** The input's encoding detection, already made (by a batch's consensus pass); used instead of detecting again */
+    detection?: IEncodingDetection;
+    /** The input's content, already read (by a batch's consensus pass); used instead of reading the file again */
+    input?: Buffer;
+    /** Input format; `auto` (or unset) picks the reader from the file extension */
+    inputFormat?: TInputFormat;
+    /** Output format; unset keeps the input format */
+    outputFormat?: TOutputFormat;
+    /** Frame rate for MicroDVD (.sub) input and output */
+    fps?: number;
+    /**
+     * Subtitle language (e.g. `ko`); picks the SAMI language track, labels TTML output and,
+     * for Arabic, Cyrillic, Greek, Hebrew and Turkish, picks between the codepages they are written in;
+     * for Vietnamese (`vi`), also recognises the VNI and TCVN3 font encodings
+     */
+    language?: string;
     strip?: IStripOptions;
+    /** Arabic normalization, applied to cue text before stripping */
+    arabic?: IArabicOptions;
+    /** Find/replace rules, applied in order after stripping */
+    replace?: IReplaceRule[];
+    /** Right-to-left fixes: visual order before anything else, punctuation and markers after the replace rules */
+    rtl?: IRtlOptions;
+    /** Directory to write into, under the name the output would get next to the input */
     outputDir?: string;
     preserveTimestamps?: boolean;
     backupOriginal?: boolean;
     overwriteBackup?: boolean;
+    /** Encoding to write (any name iconv-lite knows); unset writes UTF-8 */
+    outputEncoding?: string;
+    /** What to do with characters `outputEncoding` cannot represent; unset fails */
+    unrepresentable?: TUnrepresentablePolicy;
+    /** Start the output with a byte order mark; ignored for encodings that have none */
     bom?: boolean;
     lineEndings?: 'lf' | 'crlf' | 'auto';
     overwriteInput?: boolean;
@@ -46,5 +172,7 @@ export interface IBatchOptions {
         excludeDirectories?: string[];
         preserveStructure?: boolean;
         chunkSize?: number;
+        /** Read files whose detection is below `minConfidence` (0.5 when unset) with the encoding most of their directory shares */
+        encodingConsensus?: boolean;
     };
 }
@@ -0,0 +1,104 @@
+/**
+ * Subtitle formats that have a reader; all but `subviewer` and `smi` can also be written
+ */
+export type TSubtitleFormat = 'srt' | 'sub' | 'subviewer' | 'smi' | 'ass' | 'ssa' | 'vtt' | 'ttml' | 'txt';
+
+/**
+ * Formats accepted by `output.format`
+ */
+export type TOutputFormat = 'srt' | 'sub' | 'ass' | 'ssa' | 'vtt' | 'ttml' | 'txt';
+
+/**
+ * Formats accepted by `input.format` (`auto` picks by file extension)
+ */
+export type TInputFormat = 'auto' | TOutputFormat | 'subviewer' | 'smi';
+
+/**
+ * A single timed subtitle entry
+ */
+export interface ICue {
+    /** Sequence number as it should appear in the output */
+    index: number;
+    /** Cue identifier (WebVTT), distinct from the sequence number */
+    identifier?: string;
+    /** Start time in milliseconds */
+    start: number;
+    /** End time in milliseconds */
+    end: number;
+    /** Text lines, with inline markup left in place */
+    lines: string[];
+    /** Inline markup found in the source text (e.g. `<i>`, `{\an8}`), in order of appearance */
+    tags: string[];
+    /** Speaker, from a WebVTT `<v>` span or the ASS `Name` field */
+    voice?: string;
+    /** Positioning/settings written after the timing (e.g. SRT `X1:100`, WebVTT `align:start`) */
+    settings?: Record<string, string>;
+    /** Format-specific fields kept for round-tripping (e.g. ASS `Style`, `Layer`, `MarginL`) */
+    fields?: Record<string, string>;
+}
+
+/**
+ * A non-cue block of a subtitle file, kept verbatim (e.g. ASS `[Script Info]`, WebVTT `NOTE`)
+ */
+export interface ISubtitleSection {
+    /** Section name without brackets or trailing text (`Script Info`, `NOTE`) */
+    name: string;
+    /** Body lines; for WebVTT blocks the first entry is the text after the keyword */
+    lines: string[];
+    /**
+     * For lines that sit between cues (ASS `Comment:` events), how many cues come before each line;
+     * lines without a position are written ahead of the cues
+     */
+    positions?: number[];
+}
+
+/**
+ * Format-neutral representation of a subtitle file
+ */
+export interface ISubtitleDocument {
+    format: TSubtitleFormat;
+    cues: ICue[];
+    /** Header and other non-cue sections, in file order */
+    sections?: ISubtitleSection[];
+    /** Frame rate the timings were read at, for frame-based formats (MicroDVD) */
+    frameRate?: number;
+    /** Problems found while parsing (skipped junk, invalid timings, ...) */
+    warnings: string[];
+}
+
+/**
+ * Options handed to format handlers when they are created
+ */
+export interface IFormatOptions {
+    /** Frame rate for frame-based formats (MicroDVD); overrides any rate found in the file */
+    fps?: number;
+    /** Subtitle language or SAMI class name (`ko`, `KRCC`); picks the SAMI language track and labels TTML output */
+    language?: string;
+}
+
+/**
+ * Reads and writes a single subtitle format
+ */
+export interface ISubtitleFormatHandler {
+    readonly format: TSubtitleFormat;
+    parse(content: string): ISubtitleDocument;
+    serialize(document: ISubtitleDocument): string;
+}
+
+/**
+ * A document carried over to another format, with what could not be carried
+ */
+export interface IFormatConversion {
+    document: ISubtitleDocument;
+    /** One entry per kind of loss (dropped styles, positions, speakers, ...) */
+    warnings: string[];
+}
+
+/**
+ * A format recognised from file content
+ */
+export interface IFormatSniffResult {
+    format: TSubtitleFormat;
+    /** How sure the match is, from 0 to 1 */
+    confidence: number;
+}
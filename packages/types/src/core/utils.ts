@@ -1,4 +1,9 @@
+import { TOutputFormat } from './subtitle';
+
 export interface IOutputStrategy {
-    getOutputPath(inputPath: string): string;
+    /**
+     * @param format - When set, the output path gets this format's extension
+     */
+    getOutputPath(inputPath: string, format?: TOutputFormat): string;
     shouldBackup: boolean;
 }
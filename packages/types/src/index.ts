@@ -3,7 +3,9 @@ export * from './cli/options';
 
 export * from './core/batch';
 export * from './core/config';
+export * from './core/encoding';
 export * from './core/options';
+export * from './core/subtitle';
 export * from './core/utils';
 
 export * from './validation';
@@ -11,13 +11,96 @@ export const stripOptionsSchema = z.object({
     emojis: z.boolean().optional(),
     brackets: z.boolean().optional(),
     bidiControl: z.boolean().optional(),
+    hearingImpaired: z
+        .union([
+            z.boolean(),
+            z.object({
+                brackets: z.boolean().optional(),
+                parentheses: z.boolean().optional(),
+                music: z.boolean().optional(),
+                speakers: z.boolean().optional(),
+            }),
+        ])
+        .optional(),
 });
 
+export const replaceRuleSchema = z
+    .object({
+        pattern: z.string().min(1),
+        flags: z
+            .string()
+            .regex(/^[gimsuy]*$/)
+            .optional(),
+        replacement: z.string().default(''),
+        scope: z.enum(['text', 'all']).default('text'),
+        language: z.string().optional(),
+    })
+    .refine(
+        (rule) => {
+            try {
+                RegExp(rule.pattern, rule.flags);
+
+                return true;
+            } catch {
+                return false;
+            }
+        },
+        { message: 'Invalid regular expression', path: ['pattern'] },
+    );
+
+export const replaceRulesSchema = z.array(replaceRuleSchema);
+
+const inputEncodingSchema = z.enum([
+    'auto',
+    'utf8',
+    'utf16le',
+    'utf16be',
+    'utf32le',
+    'utf32be',
+    'ascii',
+    'windows1250',
+    'windows1251',
+    'windows1252',
+    'windows1253',
+    'windows1254',
+    'windows1255',
+    'windows1256',
+    'windows1257',
+    'windows1258',
+    'iso88591',
+    'iso88592',
+    'iso88595',
+    'iso88596',
+    'iso88597',
+    'iso88598',
+    'iso88599',
+    'iso885915',
+    'koi8r',
+    'koi8u',
+    'gb18030',
+    'gbk',
+    'big5',
+    'shiftjis',
+    'eucjp',
+    'euckr',
+]);
+
 export const configSchema = z.object({
     input: z
         .object({
-            encoding: z.enum(['auto', 'utf8', 'utf16le', 'utf16be', 'ascii', 'windows1256']).default('auto'),
-            format: z.enum(['auto', 'srt', 'sub', 'ass', 'ssa', 'txt']).default('auto'),
+            encoding: inputEncodingSchema.default('auto'),
+            encodingOverrides: z.record(z.string(), inputEncodingSchema).optional(),
+            minConfidence: z.number().min(0).max(1).optional(),
+            lowConfidence: z.enum(['warn', 'fail']).default('warn'),
+            fixMojibake: z.boolean().default(false),
+            mixedEncodings: z.boolean().default(false),
+            invalidBytes: z.enum(['ignore', 'warn', 'fail']).default('warn'),
+            detectionSampleSize: z.number().int().min(0).optional(),
+            format: z
+                .enum(['auto', 'srt', 'sub', 'subviewer', 'smi', 'ass', 'ssa', 'vtt', 'ttml', 'txt'])
+                .default('auto'),
+            fps: z.number().positive().optional(),
+            language: z.string().optional(),
         })
         .optional(),
 
@@ -26,8 +109,9 @@ export const configSchema = z.object({
             directory: z.string().optional(),
             createBackup: z.boolean().default(false),
             overwriteBackup: z.boolean().default(true),
-            format: z.enum(['srt', 'sub', 'ass', 'ssa', 'txt']).optional(),
-            encoding: z.literal('utf8').default('utf8'),
+            format: z.enum(['srt', 'sub', 'ass', 'ssa', 'vtt', 'ttml', 'txt']).optional(),
+            encoding: z.string().min(1).default('utf8'),
+            unrepresentable: z.enum(['fail', 'replace', 'transliterate']).default('fail'),
             bom: z.boolean().default(false),
             lineEndings: z.enum(['lf', 'crlf', 'auto']).default('auto'),
             overwriteInput: z.boolean().default(false),
@@ -37,6 +121,24 @@ export const configSchema = z.object({
 
     strip: stripOptionsSchema.optional(),
 
+    arabic: z
+        .object({
+            normalize: z.boolean().default(false),
+            removeTashkeel: z.boolean().default(false),
+            punctuation: z.boolean().default(false),
+        })
+        .optional(),
+
+    replace: replaceRulesSchema.optional(),
+
+    rtl: z
+        .object({
+            visualOrder: z.boolean().default(false),
+            fixPunctuation: z.boolean().default(false),
+            markers: z.enum(['rlm', 'rle']).optional(),
+        })
+        .optional(),
+
     batch: z
         .object({
             recursive: z.boolean().default(false),
@@ -47,6 +149,7 @@ export const configSchema = z.object({
             excludeDirectories: z.array(z.string()).optional(),
             preserveStructure: z.boolean().default(false),
             chunkSize: z.number().int().min(1).max(100).default(5),
+            encodingConsensus: z.boolean().default(false),
             retryCount: z.number().int().min(0).max(5).default(0),
             retryDelay: z.number().int().min(100).max(5000).default(1000),
             failFast: z.boolean().default(false),